@@ -1,31 +1,103 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { User, Deck, StudentProgress } from './types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { User, Deck, StudentProgress, CardReviewState, SessionStats, ClassGroup, Assignment, ConfusionRecord, Exam, ExamResult, ReviewEvent, SessionMode } from './types';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import StudySession from './components/StudySession';
 import Header from './components/Header';
-import { fetchFullData, saveStudentProgress } from './services/googleSheets';
+import Profile from './components/Profile';
+import TeacherDashboard from './components/TeacherDashboard';
+import ExamSession from './components/ExamSession';
+import { createDataProvider } from './services/dataProvider';
+import { describeApiError } from './services/apiContract';
+import { clearReviewStates, loadReviewStates, mergeReviewStates, reviewKey, storeReviewStates } from './services/srs';
+import { OutboxEntry, countPending, createSessionId, discardOutbox, enqueueSession, flushOutbox, mergePendingEvents, mergePendingProgress, readOutbox, releaseParked, subscribeOutbox } from './services/syncQueue';
+import { StoredSession, clearSession, decodeToken, loadSession, storeSession } from './services/session';
+import { getAssignmentsForStudent } from './services/assignments';
+import { getExamsForStudent } from './services/exam';
+import { buildWeakDeck } from './services/weakWords';
+import { SessionSnapshot, clearSessionSnapshots, loadSessionSnapshots } from './services/sessionResume';
+import { setTtsSettings } from './services/audio';
+import { DEFAULT_TTS_SETTINGS, clearTtsSettings, loadTtsSettings } from './services/ttsSettings';
 
-// Latest URL provided by the user
-const SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbw2ke6s8AcvRXKXK8IZVVyvbHcYE5KH25idViBZxlvcEvTXor1UF5Y7h3HmTml_JMU/exec';
+const dataProvider = createDataProvider();
+const SYNC_INTERVAL_MS = 15000;
+const SESSION_CHECK_MS = 60 * 1000;
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+const SESSION_EXPIRED_NOTICE = 'セッションの有効期限が切れました。もう一度ログインしてください。';
 
 const App: React.FC = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<StoredSession | null>(() => {
+    const restored = loadSession();
+    dataProvider.setSessionToken(restored ? restored.token : null);
+    return restored;
+  });
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const user: User | null = session ? session.user : null;
   const [decks, setDecks] = useState<Deck[]>([]);
   const [allProgress, setAllProgress] = useState<StudentProgress[]>([]);
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [confusions, setConfusions] = useState<ConfusionRecord[]>([]);
+  const [reviewEvents, setReviewEvents] = useState<ReviewEvent[]>([]);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [examResults, setExamResults] = useState<ExamResult[]>([]);
+  const [activeExam, setActiveExam] = useState<Exam | null>(null);
+  const [reviewStates, setReviewStates] = useState<Record<string, CardReviewState>>({});
   const [activeDeck, setActiveDeck] = useState<Deck | null>(null);
+  const [resumeSnapshot, setResumeSnapshot] = useState<SessionSnapshot | null>(null);
+  const [startMode, setStartMode] = useState<SessionMode | null>(null);
+  const [view, setView] = useState<'home' | 'profile' | 'teacher'>('home');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => readOutbox());
   const [isDarkMode, setIsDarkMode] = useState<boolean>(() => {
     const saved = localStorage.getItem('lm_dark_mode');
     return saved ? JSON.parse(saved) : true;
   });
 
-  useEffect(() => {
-    const savedUser = localStorage.getItem('lm_user');
-    if (savedUser) setUser(JSON.parse(savedUser));
+  const startSession = useCallback((next: StoredSession) => {
+    dataProvider.setSessionToken(next.token);
+    storeSession(next);
+    releaseParked(next.user.username);
+    setSession(next);
+    setSessionNotice(null);
   }, []);
 
+  const endSession = useCallback((notice: string | null = null) => {
+    dataProvider.setSessionToken(null);
+    clearSession();
+    setSession(null);
+    setReviewStates({});
+    setActiveDeck(null);
+    setActiveExam(null);
+    setView('home');
+    setSessionNotice(notice);
+  }, []);
+
+  // Refresh the token shortly before it expires; sign out once the backend rejects it
+  useEffect(() => {
+    if (!session) return;
+    const check = async () => {
+      const claims = decodeToken(session.token);
+      if (!claims || claims.exp <= Date.now()) {
+        endSession(SESSION_EXPIRED_NOTICE);
+        return;
+      }
+      if (claims.exp - Date.now() > REFRESH_MARGIN_MS) return;
+      const result = await dataProvider.refreshSession();
+      if (result.ok) startSession({ ...session, token: result.data });
+      else if (result.error.kind === 'auth') endSession(SESSION_EXPIRED_NOTICE);
+    };
+    check();
+    const interval = window.setInterval(check, SESSION_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [session, startSession, endSession]);
+
+  // Each user keeps their own voice, accent and speed
+  useEffect(() => {
+    setTtsSettings(user ? loadTtsSettings(user.username) : DEFAULT_TTS_SETTINGS);
+  }, [user?.username]);
+
   useEffect(() => {
     localStorage.setItem('lm_dark_mode', JSON.stringify(isDarkMode));
     if (isDarkMode) {
@@ -38,67 +110,191 @@ const App: React.FC = () => {
   const loadData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
-    try {
-      const data = await fetchFullData(SCRIPT_URL);
-      setDecks(data.decks || []);
-      setAllProgress(data.progress || []);
-    } catch (err) {
-      setError('データの同期に失敗しました。Apps Scriptの「公開設定」と「シート名」を確認してください。');
-      console.error(err);
-    } finally {
-      setIsLoading(false);
+    const result = await dataProvider.fetchFullData();
+    if (result.ok) {
+      const data = result.data;
+      setDecks(data.decks);
+      setAllProgress(data.progress);
+      setClasses(data.classes || []);
+      setAssignments(data.assignments || []);
+      setConfusions(data.confusions || []);
+      setReviewEvents(data.reviewEvents || []);
+      setExams(data.exams || []);
+      setExamResults(data.examResults || []);
+      if (user) {
+        const remote = (data.reviews || []).filter(r => r.username === user.username);
+        const merged = mergeReviewStates(loadReviewStates(user.username), remote);
+        storeReviewStates(user.username, merged);
+        setReviewStates(merged);
+      }
+    } else if (result.error.kind === 'auth' && user) {
+      endSession(SESSION_EXPIRED_NOTICE);
+    } else {
+      setError(describeApiError(result.error));
+      console.error(`[Data] ${result.error.kind}: ${result.error.message}`);
     }
-  }, []);
+    setIsLoading(false);
+  }, [user, endSession]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
-  const handleSessionComplete = async (masteryPercentage: number, cardsMastered: number, totalCards: number, memoryTime?: number) => {
+  const syncOutbox = useCallback(async () => {
+    // Only refetch when something actually reached the backend
+    if (!user) return;
+    const queued = readOutbox().length;
+    if (queued > 0 && await flushOutbox(dataProvider, user.username) < queued) loadData();
+  }, [user, loadData]);
+
+  useEffect(() => subscribeOutbox(setOutbox), []);
+
+  useEffect(() => {
+    syncOutbox();
+    window.addEventListener('online', syncOutbox);
+    const interval = window.setInterval(syncOutbox, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', syncOutbox);
+      clearInterval(interval);
+    };
+  }, [syncOutbox]);
+
+  const mergedProgress = useMemo(() => mergePendingProgress(allProgress, outbox), [allProgress, outbox]);
+  const mergedEvents = useMemo(() => mergePendingEvents(reviewEvents, outbox), [reviewEvents, outbox]);
+  // Re-read whenever a study session closes, since it may have left or finished a snapshot
+  const snapshots = useMemo(() => user ? loadSessionSnapshots(user.username) : {}, [user, activeDeck]);
+  const openDeck = (deck: Deck, snapshot: SessionSnapshot | null = null) => {
+    setResumeSnapshot(snapshot);
+    setStartMode(null);
+    setActiveDeck(deck);
+  };
+  const openCustomDeck = (deck: Deck, mode: SessionMode) => {
+    setResumeSnapshot(null);
+    setStartMode(mode);
+    setActiveDeck(deck);
+  };
+  const weakDeck = useMemo(
+    () => buildWeakDeck(user?.username ?? '', decks, mergedEvents, reviewStates),
+    [user, decks, mergedEvents, reviewStates]
+  );
+  const studentAssignments = useMemo(
+    () => user ? getAssignmentsForStudent(user.username, classes, assignments) : [],
+    [user, classes, assignments]
+  );
+  const studentExams = useMemo(
+    () => user ? getExamsForStudent(user.username, classes, exams) : [],
+    [user, classes, exams]
+  );
+  const activeExamDeck = activeExam ? decks.find(d => d.name === activeExam.deckName) : undefined;
+
+  const handleSessionComplete = async ({ mode, direction, progress: masteryPercentage, mastered: cardsMastered, total: totalCards, memoryTime, reviews, confusions, events }: SessionStats) => {
     if (user && activeDeck) {
-      await saveStudentProgress(SCRIPT_URL, {
+      if (reviews && reviews.length > 0) {
+        const updated = { ...reviewStates };
+        reviews.forEach(r => { updated[reviewKey(r.deckName, r.cardId, r.direction)] = r; });
+        storeReviewStates(user.username, updated);
+        setReviewStates(updated);
+      }
+      enqueueSession({
+        sessionId: createSessionId(),
         username: user.username,
         deckName: activeDeck.name,
         masteryPercentage,
+        lastAttempted: new Date().toISOString(),
         cardsMastered,
         totalCards,
-        memoryTime
-      });
-      loadData();
+        memoryTime,
+        mode,
+        direction
+      }, reviews || [], confusions || [], events || []);
     }
     setActiveDeck(null);
+    await syncOutbox();
   };
 
   const toggleDarkMode = () => setIsDarkMode(!isDarkMode);
 
-  if (!user) return <Login scriptUrl={SCRIPT_URL} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} onLogin={(u: string, name?: string, email?: string) => {
-    const newUser = { username: u, studentName: name, email, isLoggedIn: true };
-    setUser(newUser);
-    localStorage.setItem('lm_user', JSON.stringify(newUser));
-  }} />;
+  if (!user) return <Login provider={dataProvider} notice={sessionNotice} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} onLogin={startSession} />;
 
   return (
     <div className="min-h-screen bg-white dark:bg-black transition-colors duration-300 flex flex-col">
       <Header 
         user={user} 
-        onLogout={() => { setUser(null); localStorage.removeItem('lm_user'); }} 
-        onSettingsClick={() => setActiveDeck(null)}
+        pendingSync={countPending(outbox)}
+        onLogout={() => endSession()} 
+        onProfileClick={() => { setActiveDeck(null); setView('profile'); }}
+        onTeacherClick={user.role === 'teacher' ? () => { setActiveDeck(null); setView('teacher'); } : undefined}
+        onSettingsClick={() => { setActiveDeck(null); setView('home'); }}
         isDarkMode={isDarkMode}
         onToggleDarkMode={toggleDarkMode}
       />
       <main className="flex-grow container mx-auto px-4 py-8">
-        {activeDeck ? (
+        {view === 'teacher' && user.role === 'teacher' ? (
+          <TeacherDashboard
+            provider={dataProvider}
+            user={user}
+            decks={decks}
+            classes={classes}
+            assignments={assignments}
+            confusions={confusions}
+            reviewEvents={mergedEvents}
+            exams={exams}
+            examResults={examResults}
+            allProgress={mergedProgress}
+            onChanged={loadData}
+            onClose={() => setView('home')}
+          />
+        ) : view === 'profile' && session ? (
+          <Profile
+            provider={dataProvider}
+            user={session.user}
+            onUpdated={(updated) => startSession({ ...session, user: updated })}
+            onDeleted={() => {
+              clearReviewStates(session.user.username);
+              clearSessionSnapshots(session.user.username);
+              clearTtsSettings(session.user.username);
+              discardOutbox(session.user.username);
+              endSession('アカウントを削除しました。');
+            }}
+            onClose={() => setView('home')}
+          />
+        ) : activeExam && activeExamDeck ? (
+          <ExamSession
+            provider={dataProvider}
+            user={user}
+            exam={activeExam}
+            deck={activeExamDeck}
+            onClose={(submitted) => {
+              setActiveExam(null);
+              if (submitted) loadData();
+            }}
+          />
+        ) : activeDeck ? (
           <StudySession 
             deck={activeDeck} 
             user={user}
-            allProgress={allProgress}
-            onClose={(stats?: { progress: number, mastered: number, total: number, memoryTime?: number }) => stats ? handleSessionComplete(stats.progress, stats.mastered, stats.total, stats.memoryTime) : setActiveDeck(null)} 
+            allProgress={mergedProgress}
+            reviewStates={reviewStates}
+            resume={resumeSnapshot ?? undefined}
+            startMode={startMode ?? undefined}
+            onClose={(stats?: SessionStats) => stats ? handleSessionComplete(stats) : setActiveDeck(null)} 
           />
         ) : (
           <Dashboard 
             decks={decks}
-            userProgress={allProgress.filter(p => p.username === user.username)}
-            onSelectDeck={setActiveDeck}
+            weakDeck={weakDeck}
+            username={user.username}
+            userProgress={mergedProgress.filter(p => p.username === user.username)}
+            reviewStates={reviewStates}
+            reviewEvents={mergedEvents}
+            assignments={studentAssignments}
+            exams={studentExams}
+            examResults={examResults.filter(r => r.username === user.username)}
+            snapshots={snapshots}
+            onSelectDeck={openDeck}
+            onResumeDeck={openDeck}
+            onStartCustom={openCustomDeck}
+            onStartExam={setActiveExam}
             isLoading={isLoading}
             error={error}
             onRefresh={loadData}
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard } from '../types';
+import { formatIpa, safeImageUrl } from '../services/cardFields';
+
+interface CardDetailsProps {
+  card: Flashcard;
+}
+
+/**
+ * Japanese text with its reading above it, when the card has one.
+ */
+export const WithReading: React.FC<{ text: string; reading?: string }> = ({ text, reading }) =>
+  reading?.trim() ? <ruby>{text}<rt className="text-[0.35em] font-bold not-italic tracking-normal opacity-70">{reading}</rt></ruby> : <>{text}</>;
+
+/**
+ * The optional fields of a card (part of speech, IPA, image, example and tags),
+ * laid out for the dark answer side of the study modes.
+ */
+const CardDetails: React.FC<CardDetailsProps> = ({ card }) => {
+  const [imageFailed, setImageFailed] = useState(false);
+  useEffect(() => setImageFailed(false), [card.imageUrl]);
+  const image = imageFailed ? null : safeImageUrl(card.imageUrl);
+  const ipa = formatIpa(card.ipa);
+  const tags = card.tags || [];
+
+  if (!card.partOfSpeech && !ipa && !image && !card.example && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-3 max-w-full">
+      {(card.partOfSpeech || ipa) && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {card.partOfSpeech && (
+            <span className="px-3 py-1 bg-jec-green/10 text-jec-green rounded-lg text-[10px] font-black uppercase tracking-widest">{card.partOfSpeech}</span>
+          )}
+          {ipa && <span className="text-sm font-bold text-zinc-400 font-mono">{ipa}</span>}
+        </div>
+      )}
+      {image && (
+        <img src={image} alt={card.front} loading="lazy" referrerPolicy="no-referrer" onError={() => setImageFailed(true)} className="max-h-28 max-w-full rounded-2xl object-contain" />
+      )}
+      {card.example && (
+        <div className="bg-white/5 px-5 py-3 rounded-2xl border border-white/5 text-left max-w-md">
+          <p className="text-sm font-bold text-white italic">{card.example}</p>
+          {card.exampleTranslation && <p className="mt-1 text-xs font-bold text-zinc-400">{card.exampleTranslation}</p>}
+        </div>
+      )}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 bg-white/5 text-zinc-500 rounded-md text-[10px] font-black">#{tag}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CardDetails;
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Assignment, ClassGroup, Deck, SessionMode, StudentProgress, User } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import { ApiResult, describeApiError } from '../services/apiContract';
+import { formatCountdown, getAssignmentCompletion } from '../services/assignments';
+import { SESSION_MODE_LABELS } from '../services/sessionModes';
+import { createSessionId } from '../services/syncQueue';
+
+interface ClassManagerProps {
+  provider: DataProvider;
+  user: User;
+  decks: Deck[];
+  classes: ClassGroup[];
+  assignments: Assignment[];
+  allProgress: StudentProgress[];
+  onChanged: () => void;
+}
+
+const inputClass = "w-full px-5 py-3 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold text-sm";
+const sectionClass = "bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-5";
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2";
+
+const parseMembers = (text: string) => Array.from(new Set(text.split(/[\s,、]+/).map(m => m.trim()).filter(Boolean)));
+
+const ClassManager: React.FC<ClassManagerProps> = ({ provider, user, decks, classes, assignments, allProgress, onChanged }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingClass, setEditingClass] = useState<ClassGroup | null>(null);
+  const [className, setClassName] = useState('');
+  const [membersText, setMembersText] = useState('');
+  const [expandedAssignment, setExpandedAssignment] = useState<string | null>(null);
+  const [draft, setDraft] = useState({
+    classId: '',
+    deckName: '',
+    mode: SessionMode.FLASHCARD,
+    targetMastery: 80,
+    dueDate: ''
+  });
+
+  const knownStudents = useMemo(
+    () => Array.from(new Set(allProgress.map(p => p.username))).sort(),
+    [allProgress]
+  );
+
+  const run = async (action: () => Promise<ApiResult<void>>) => {
+    setIsSaving(true);
+    setError(null);
+    const result = await action();
+    setIsSaving(false);
+    if (!result.ok) {
+      setError(describeApiError(result.error));
+      return false;
+    }
+    onChanged();
+    return true;
+  };
+
+  const resetClassForm = () => {
+    setEditingClass(null);
+    setClassName('');
+    setMembersText('');
+  };
+
+  const handleSaveClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!className.trim()) return;
+    const group: ClassGroup = {
+      id: editingClass?.id ?? createSessionId(),
+      name: className.trim(),
+      teacher: editingClass?.teacher ?? user.username,
+      members: parseMembers(membersText)
+    };
+    if (await run(() => provider.saveClass(group))) resetClassForm();
+  };
+
+  const handleSaveAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.classId || !draft.deckName || !draft.dueDate) return;
+    const assignment: Assignment = {
+      id: createSessionId(),
+      classId: draft.classId,
+      deckName: draft.deckName,
+      mode: draft.mode,
+      targetMastery: draft.targetMastery,
+      // Due at the end of the chosen day
+      dueDate: new Date(`${draft.dueDate}T23:59:59`).toISOString(),
+      createdBy: user.username,
+      createdAt: new Date().toISOString()
+    };
+    if (await run(() => provider.saveAssignment(assignment))) setDraft({ ...draft, deckName: '', dueDate: '' });
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-500/10 text-red-500 rounded-2xl border border-red-500/20 text-xs font-black flex items-center gap-3">
+          <i className="fas fa-exclamation-triangle"></i>
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <form onSubmit={handleSaveClass} className={sectionClass}>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-green">
+            {editingClass ? 'クラスを編集' : '新しいクラス'}
+          </h4>
+          <div>
+            <label className={labelClass}>クラス名</label>
+            <input type="text" value={className} onChange={(e) => setClassName(e.target.value)} className={inputClass} placeholder="例: 1年A組" required />
+          </div>
+          <div>
+            <label className={labelClass}>メンバー（ユーザーIDをカンマまたは改行で区切る）</label>
+            <textarea value={membersText} onChange={(e) => setMembersText(e.target.value)} className={`${inputClass} h-28 resize-none`} />
+            {knownStudents.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {knownStudents.filter(s => !parseMembers(membersText).includes(s)).map(s => (
+                  <button
+                    type="button"
+                    key={s}
+                    onClick={() => setMembersText(parseMembers(membersText).concat(s).join(', '))}
+                    className="px-3 py-1 bg-gray-100 dark:bg-black rounded-xl text-[10px] font-black text-gray-500 dark:text-zinc-400 hover:text-jec-green transition-colors"
+                  >
+                    + @{s}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" disabled={isSaving} className="flex-grow bg-black dark:bg-jec-green text-white dark:text-black font-black py-3 rounded-2xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter">
+              {editingClass ? '更新' : '作成'}
+            </button>
+            {editingClass && (
+              <button type="button" onClick={resetClassForm} className="px-6 bg-gray-100 dark:bg-black text-gray-500 font-black rounded-2xl">取消</button>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-gray-50 dark:border-white/5">
+            {classes.map(group => (
+              <div key={group.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-black rounded-xl">
+                <div>
+                  <span className="block text-sm font-black text-gray-900 dark:text-white">{group.name}</span>
+                  <span className="text-[10px] font-bold text-gray-400 dark:text-zinc-500">{group.members.length}名</span>
+                </div>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => { setEditingClass(group); setClassName(group.name); setMembersText(group.members.join(', ')); }} className="w-8 h-8 text-gray-400 hover:text-jec-yellow" title="編集">
+                    <i className="fas fa-pen text-xs"></i>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => window.confirm(`「${group.name}」と関連する課題を削除しますか？`) && run(() => provider.deleteClass(group.id))}
+                    className="w-8 h-8 text-gray-400 hover:text-red-500"
+                    title="削除"
+                  >
+                    <i className="fas fa-trash text-xs"></i>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </form>
+
+        <form onSubmit={handleSaveAssignment} className={sectionClass}>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-orange">新しい課題</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>クラス</label>
+              <select value={draft.classId} onChange={(e) => setDraft({ ...draft, classId: e.target.value })} className={inputClass} required>
+                <option value="">選択</option>
+                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>単語帳</label>
+              <select value={draft.deckName} onChange={(e) => setDraft({ ...draft, deckName: e.target.value })} className={inputClass} required>
+                <option value="">選択</option>
+                {decks.map(d => <option key={d.id} value={d.name}>{d.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>モード</label>
+              <select value={draft.mode} onChange={(e) => setDraft({ ...draft, mode: e.target.value as SessionMode })} className={inputClass}>
+                {Object.values(SessionMode).map(m => <option key={m} value={m}>{SESSION_MODE_LABELS[m]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>目標習得率 (%)</label>
+              <input type="number" min={0} max={100} value={draft.targetMastery} onChange={(e) => setDraft({ ...draft, targetMastery: Number(e.target.value) })} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>締切日</label>
+              <input type="date" value={draft.dueDate} onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })} className={inputClass} required />
+            </div>
+          </div>
+          <button type="submit" disabled={isSaving || classes.length === 0} className="w-full bg-black dark:bg-jec-orange text-white dark:text-black font-black py-3 rounded-2xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter">
+            課題を出す
+          </button>
+        </form>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-yellow">課題の進捗</h4>
+        {assignments.length === 0 && (
+          <p className="text-xs font-black text-gray-400 dark:text-zinc-600 uppercase tracking-widest text-center py-8">課題はまだありません</p>
+        )}
+        {[...assignments]
+          .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+          .map(assignment => {
+            const completion = getAssignmentCompletion(assignment, classes, allProgress);
+            const done = completion.filter(c => c.status.completed).length;
+            const group = classes.find(c => c.id === assignment.classId);
+            const isExpanded = expandedAssignment === assignment.id;
+            return (
+              <div key={assignment.id} className="bg-gray-50 dark:bg-black rounded-2xl overflow-hidden">
+                <div className="flex items-center justify-between p-4 cursor-pointer" onClick={() => setExpandedAssignment(isExpanded ? null : assignment.id)}>
+                  <div>
+                    <span className="block text-sm font-black text-gray-900 dark:text-white">{assignment.deckName} • {SESSION_MODE_LABELS[assignment.mode]}</span>
+                    <span className="text-[10px] font-bold text-gray-400 dark:text-zinc-500">
+                      {group?.name ?? '削除されたクラス'} • 目標 {assignment.targetMastery}% • 締切 {new Date(assignment.dueDate).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm font-black text-jec-green">{done} / {completion.length}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); if (window.confirm('この課題を削除しますか？')) run(() => provider.deleteAssignment(assignment.id)); }}
+                      className="w-8 h-8 text-gray-400 hover:text-red-500"
+                      title="削除"
+                    >
+                      <i className="fas fa-trash text-xs"></i>
+                    </button>
+                    <i className={`fas fa-chevron-${isExpanded ? 'up' : 'down'} text-gray-400 text-xs`}></i>
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div className="px-4 pb-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {completion.map(({ username, status }) => (
+                      <div key={username} className="flex items-center justify-between p-3 bg-white dark:bg-zinc-900 rounded-xl text-xs font-bold">
+                        <span className="text-gray-900 dark:text-white">@{username}</span>
+                        <span className={status.completed ? 'text-jec-green' : status.overdue ? 'text-red-500' : 'text-gray-400'}>
+                          {status.completed
+                            ? `完了 ${new Date(status.completedAt!).toLocaleDateString()}`
+                            : `${status.bestMastery}% • ${formatCountdown(status.msRemaining)}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+};
+
+export default ClassManager;
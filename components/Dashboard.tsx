@@ -1,25 +1,65 @@
 
-import React from 'react';
-import { Deck, StudentProgress } from '../types';
+import React, { useState } from 'react';
+import { Assignment, CardReviewState, Deck, Exam, ExamResult, ReviewEvent, SessionMode, StudentProgress } from '../types';
+import { countDue } from '../services/srs';
+import { formatCountdown, getAssignmentStatus } from '../services/assignments';
+import { SESSION_MODE_ICONS, SESSION_MODE_LABELS } from '../services/sessionModes';
+import { examPercentage, findExamResult } from '../services/exam';
+import { MIN_WEAK_WORDS } from '../services/weakWords';
+import { SessionSnapshot } from '../services/sessionResume';
+import { CUSTOM_DECK_NAME } from '../services/customSession';
+import DeckExportMenu from './DeckExportMenu';
+import DeckAudioDownload from './DeckAudioDownload';
+import SessionBuilder from './SessionBuilder';
 
 interface DashboardProps {
+  username: string;
   decks: Deck[];
+  weakDeck: Deck;
   userProgress: StudentProgress[];
+  assignments: Assignment[];
+  exams: Exam[];
+  examResults: ExamResult[];
+  reviewStates: Record<string, CardReviewState>;
+  reviewEvents: ReviewEvent[];
+  snapshots: Record<string, SessionSnapshot>;
   onSelectDeck: (deck: Deck) => void;
+  onResumeDeck: (deck: Deck, snapshot: SessionSnapshot) => void;
+  onStartCustom: (deck: Deck, mode: SessionMode) => void;
+  onStartExam: (exam: Exam) => void;
   isLoading: boolean;
   error: string | null;
   onRefresh: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
-  decks, userProgress, onSelectDeck, isLoading, error, onRefresh
+  username, decks, weakDeck, userProgress, assignments, exams, examResults, reviewStates, reviewEvents, snapshots, onSelectDeck, onResumeDeck, onStartCustom, onStartExam, isLoading, error, onRefresh
 }) => {
+  const [isBuilding, setIsBuilding] = useState(false);
+
   const getProgressForDeck = (deckName: string) => {
     const records = userProgress.filter(p => p.deckName === deckName);
     if (records.length === 0) return null;
     return records.sort((a, b) => new Date(b.lastAttempted).getTime() - new Date(a.lastAttempted).getTime())[0];
   };
 
+  const renderResume = (deck: Deck) => {
+    const snapshot = snapshots[deck.name];
+    if (!snapshot) return null;
+    const done = snapshot.mode === SessionMode.MEMORY
+      ? `${snapshot.memoryCards.filter(t => t.isMatched).length / 2}ペア`
+      : `${snapshot.historyCount}回答`;
+    return (
+      <button
+        onClick={(e) => { e.stopPropagation(); onResumeDeck(deck, snapshot); }}
+        className="mb-6 -mt-3 inline-flex items-center gap-2 self-start px-3 py-1 bg-jec-yellow/10 text-jec-yellow rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-jec-yellow hover:text-black transition-colors"
+      >
+        <i className="fas fa-play-circle"></i>
+        続きから • {SESSION_MODE_LABELS[snapshot.mode]} {done}
+      </button>
+    );
+  };
+
   return (
     <div className="max-w-6xl mx-auto space-y-10">
       {error && (
@@ -29,6 +69,90 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       )}
 
+      {assignments.length > 0 && (
+        <section>
+          <div className="mb-6">
+            <h3 className="text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase italic">
+              Assigned <span className="text-jec-orange">To You</span>
+            </h3>
+            <p className="text-xs font-bold text-gray-400 dark:text-zinc-500 mt-2 uppercase tracking-widest">先生からの課題</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {assignments.map(assignment => {
+              const deck = decks.find(d => d.name === assignment.deckName);
+              const status = getAssignmentStatus(assignment, userProgress, username);
+              const badgeClass = status.completed
+                ? 'bg-jec-green/10 text-jec-green'
+                : status.overdue ? 'bg-red-500/10 text-red-500' : 'bg-jec-orange/10 text-jec-orange';
+              return (
+                <button
+                  key={assignment.id}
+                  disabled={!deck}
+                  onClick={() => deck && onSelectDeck(deck)}
+                  className={`text-left bg-white dark:bg-zinc-900 p-6 rounded-[2rem] border-2 transition-all hover:shadow-xl disabled:opacity-50 ${status.completed ? 'border-jec-green/30' : status.overdue ? 'border-red-500/40' : 'border-jec-orange/30 hover:border-jec-orange'}`}
+                >
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 flex items-center gap-2">
+                      <i className={`fas ${SESSION_MODE_ICONS[assignment.mode]}`}></i>
+                      {SESSION_MODE_LABELS[assignment.mode]}
+                    </span>
+                    <span className={`px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest ${badgeClass}`}>
+                      {status.completed ? '完了' : formatCountdown(status.msRemaining)}
+                    </span>
+                  </div>
+                  <h4 className="text-xl font-black text-gray-900 dark:text-white tracking-tighter mb-3">{assignment.deckName}</h4>
+                  <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-gray-400 dark:text-zinc-500">目標 {assignment.targetMastery}% • 最高 {status.bestMastery}%</span>
+                    <span className="text-gray-400 dark:text-zinc-500">締切 {new Date(assignment.dueDate).toLocaleDateString()}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {exams.length > 0 && (
+        <section>
+          <div className="mb-6">
+            <h3 className="text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase italic">
+              Vocab <span className="text-jec-green">Tests</span>
+            </h3>
+            <p className="text-xs font-bold text-gray-400 dark:text-zinc-500 mt-2 uppercase tracking-widest">単語テスト</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {exams.map(exam => {
+              const result = findExamResult(exam.id, username, examResults);
+              const closed = !result && new Date(exam.dueDate).getTime() < Date.now();
+              const available = !result && !closed && decks.some(d => d.name === exam.deckName);
+              return (
+                <button
+                  key={exam.id}
+                  disabled={!available}
+                  onClick={() => onStartExam(exam)}
+                  className={`text-left bg-white dark:bg-zinc-900 p-6 rounded-[2rem] border-2 transition-all ${available ? 'border-jec-green/30 hover:border-jec-green hover:shadow-xl' : 'border-gray-100 dark:border-white/5'} ${closed ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 flex items-center gap-2">
+                      <i className="fas fa-clipboard-check"></i>
+                      {exam.questionCount}問 • {exam.timeLimitMinutes}分
+                    </span>
+                    <span className={`px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest ${result ? 'bg-jec-green/10 text-jec-green' : closed ? 'bg-red-500/10 text-red-500' : 'bg-jec-orange/10 text-jec-orange'}`}>
+                      {result ? `${result.score} / ${result.total} (${examPercentage(result)}%)` : closed ? '締切済み' : formatCountdown(new Date(exam.dueDate).getTime() - Date.now())}
+                    </span>
+                  </div>
+                  <h4 className="text-xl font-black text-gray-900 dark:text-white tracking-tighter mb-3">{exam.title}</h4>
+                  <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-gray-400 dark:text-zinc-500">{exam.deckName}</span>
+                    <span className="text-gray-400 dark:text-zinc-500">締切 {new Date(exam.dueDate).toLocaleDateString()}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       <section>
         <div className="flex flex-col md:flex-row md:items-end justify-between mb-10 gap-4">
           <div>
@@ -37,16 +161,44 @@ const Dashboard: React.FC<DashboardProps> = ({
             </h3>
             <p className="text-xs font-bold text-gray-400 dark:text-zinc-500 mt-2 uppercase tracking-widest">モジュールを選択してトレーニングを開始</p>
           </div>
-          <button 
-            onClick={onRefresh} 
-            disabled={isLoading} 
-            className="flex items-center gap-2 px-6 py-3 bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-zinc-400 rounded-2xl font-black hover:bg-jec-yellow hover:text-black transition-all shadow-sm active:scale-95 disabled:opacity-50 text-xs uppercase tracking-widest border border-transparent dark:border-white/5"
-          >
-            {isLoading ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-sync-alt"></i>}
-            {isLoading ? '同期中...' : '最新データに同期'}
-          </button>
+          <div className="flex items-center gap-3">
+            {decks.length > 0 && (
+              <button
+                onClick={() => setIsBuilding(prev => !prev)}
+                aria-expanded={isBuilding}
+                className={`flex items-center gap-2 px-6 py-3 rounded-2xl font-black transition-all shadow-sm active:scale-95 text-xs uppercase tracking-widest border border-transparent dark:border-white/5 ${isBuilding ? 'bg-jec-yellow text-black' : 'bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-zinc-400 hover:bg-jec-yellow hover:text-black'}`}
+              >
+                <i className="fas fa-sliders-h"></i>
+                {CUSTOM_DECK_NAME}
+                {snapshots[CUSTOM_DECK_NAME] && <span className="w-2 h-2 rounded-full bg-jec-orange" aria-label="続きあり"></span>}
+              </button>
+            )}
+            <button 
+              onClick={onRefresh} 
+              disabled={isLoading} 
+              className="flex items-center gap-2 px-6 py-3 bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-zinc-400 rounded-2xl font-black hover:bg-jec-yellow hover:text-black transition-all shadow-sm active:scale-95 disabled:opacity-50 text-xs uppercase tracking-widest border border-transparent dark:border-white/5"
+            >
+              {isLoading ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-sync-alt"></i>}
+              {isLoading ? '同期中...' : '最新データに同期'}
+            </button>
+          </div>
         </div>
 
+        {isBuilding && decks.length > 0 && (
+          <div className="mb-10">
+            <SessionBuilder
+              username={username}
+              decks={decks}
+              reviewStates={reviewStates}
+              events={reviewEvents}
+              snapshot={snapshots[CUSTOM_DECK_NAME]}
+              onStart={onStartCustom}
+              onResume={onResumeDeck}
+              onClose={() => setIsBuilding(false)}
+            />
+          </div>
+        )}
+
         {decks.length === 0 && !isLoading ? (
           <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
             <div className="py-20 text-center bg-gray-50 dark:bg-zinc-900/50 rounded-[3.5rem] border-2 border-dashed border-gray-200 dark:border-white/5">
@@ -68,7 +220,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                     "「Users」「Progress」以外のタブ名が学習セットになります",
                     "各シートの1行目はヘッダーとしてスキップされます",
                     "A列に英語、B列に日本語、C列に補足(任意)を入力してください",
-                    "シートが空、または1行しかない場合は表示されません"
+                    "シートが空、または1行しかない場合は表示されません",
+                    "先生アカウントではヘッダーの教師アイコン →「単語帳」タブから作成・編集できます"
                   ].map((text, i) => (
                     <li key={i} className="flex items-start gap-3 text-xs font-bold text-gray-500 dark:text-zinc-400">
                       <i className="fas fa-check-circle text-jec-green mt-0.5"></i>
@@ -87,7 +240,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                     "Apps Scriptで「デプロイ」>「デプロイを管理」をクリック",
                     "現在のデプロイを選択し、編集（ペン）ボタンをクリック",
                     "バージョンを「新バージョン」にして「デプロイ」",
-                    "URLが変わった場合は App.tsx を更新して保存"
+                    "URLが変わった場合は services/dataProvider.ts を更新して保存"
                   ].map((text, i) => (
                     <li key={i} className="flex items-start gap-3 text-xs font-bold text-gray-500 dark:text-zinc-400">
                       <i className="fas fa-arrow-circle-right text-jec-orange mt-0.5"></i>
@@ -100,9 +253,41 @@ const Dashboard: React.FC<DashboardProps> = ({
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {weakDeck.cards.length >= MIN_WEAK_WORDS && (
+              <div
+                onClick={() => onSelectDeck(weakDeck)}
+                className="group relative bg-black dark:bg-zinc-900 p-8 rounded-[2.5rem] border-2 border-jec-orange/40 shadow-sm hover:shadow-2xl hover:border-jec-orange transition-all cursor-pointer flex flex-col h-full overflow-hidden"
+              >
+                <div className="absolute -top-4 -right-4 w-24 h-24 bg-jec-orange/10 rounded-full blur-2xl group-hover:bg-jec-orange/20 transition-colors"></div>
+
+                <div className="flex items-start justify-between mb-6">
+                  <div className="w-14 h-14 bg-jec-orange/10 text-jec-orange rounded-2xl flex items-center justify-center text-2xl group-hover:bg-jec-orange group-hover:text-black transition-all">
+                    <i className="fas fa-crosshairs"></i>
+                  </div>
+                  <div className="text-right">
+                    <span className="block text-[10px] font-black text-zinc-600 uppercase tracking-widest mb-1">単語数</span>
+                    <span className="text-xl font-black text-white italic">{weakDeck.cards.length}</span>
+                  </div>
+                </div>
+
+                <h4 className="text-2xl font-black text-white mb-3 tracking-tighter group-hover:text-jec-orange transition-colors">{weakDeck.name}</h4>
+                <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-6">
+                  全単語帳からよく間違える単語 • {new Set(weakDeck.cards.map(c => c.origin?.deckName)).size}冊
+                </p>
+                {renderResume(weakDeck)}
+
+                <div className="mt-auto flex items-center justify-between pt-4 border-t border-white/5">
+                  <span className="text-xs font-bold text-zinc-400 italic truncate pr-4">{weakDeck.cards.slice(0, 3).map(c => c.front).join(' / ')}</span>
+                  <div className="w-8 h-8 rounded-full bg-black flex items-center justify-center text-zinc-700 group-hover:text-jec-orange transition-colors shadow-inner">
+                    <i className="fas fa-play text-[10px]"></i>
+                  </div>
+                </div>
+              </div>
+            )}
             {decks.map(deck => {
               const stats = getProgressForDeck(deck.name);
               const mastery = stats ? stats.masteryPercentage : 0;
+              const due = countDue(deck.name, deck.cards, reviewStates);
               
               return (
                 <div 
@@ -123,6 +308,15 @@ const Dashboard: React.FC<DashboardProps> = ({
                   </div>
                   
                   <h4 className="text-2xl font-black text-gray-900 dark:text-white mb-6 tracking-tighter group-hover:text-jec-yellow transition-colors">{deck.name}</h4>
+
+                  {renderResume(deck)}
+
+                  {due.review > 0 && (
+                    <div className="mb-6 -mt-3 inline-flex items-center gap-2 self-start px-3 py-1 bg-jec-green/10 text-jec-green rounded-xl text-[10px] font-black uppercase tracking-widest">
+                      <i className="fas fa-redo"></i>
+                      今日の復習 {due.review}語
+                    </div>
+                  )}
                   
                   <div className="mt-auto space-y-6">
                     <div>
@@ -143,8 +337,19 @@ const Dashboard: React.FC<DashboardProps> = ({
                         <span className="text-[10px] text-gray-300 dark:text-zinc-700 uppercase font-black tracking-widest">最終学習日</span>
                         <span className="text-xs font-bold text-gray-500 dark:text-zinc-400 italic">{stats ? new Date(stats.lastAttempted).toLocaleDateString() : '未着手'}</span>
                       </div>
-                      <div className="w-8 h-8 rounded-full bg-gray-50 dark:bg-black flex items-center justify-center text-gray-300 dark:text-zinc-800 group-hover:text-jec-orange transition-colors shadow-inner">
-                         <i className="fas fa-play text-[10px]"></i>
+                      <div className="flex items-center gap-2">
+                        <DeckAudioDownload
+                          deck={deck}
+                          buttonClassName="w-8 h-8 rounded-full bg-gray-50 dark:bg-black flex items-center justify-center text-gray-300 dark:text-zinc-700 hover:text-jec-yellow transition-colors shadow-inner"
+                        />
+                        <DeckExportMenu
+                          deck={deck}
+                          reviewStates={reviewStates}
+                          buttonClassName="w-8 h-8 rounded-full bg-gray-50 dark:bg-black flex items-center justify-center text-gray-300 dark:text-zinc-700 hover:text-jec-yellow transition-colors shadow-inner"
+                        />
+                        <div className="w-8 h-8 rounded-full bg-gray-50 dark:bg-black flex items-center justify-center text-gray-300 dark:text-zinc-800 group-hover:text-jec-orange transition-colors shadow-inner">
+                           <i className="fas fa-play text-[10px]"></i>
+                        </div>
                       </div>
                     </div>
                   </div>
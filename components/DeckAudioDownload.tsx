@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Deck } from '../types';
+import { PregenerateProgress, countCachedAudio, getTtsSettings, pregenerateAudio } from '../services/audio';
+
+interface DeckAudioDownloadProps {
+  deck: Deck;
+  buttonClassName: string;
+}
+
+/**
+ * Stores the AI voice for every word of a deck so listening works offline.
+ * Browser speech and recorded clips need no download, so the button only shows for Gemini.
+ */
+const DeckAudioDownload: React.FC<DeckAudioDownloadProps> = ({ deck, buttonClassName }) => {
+  const [progress, setProgress] = useState<PregenerateProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const words = deck.cards.map(c => c.front);
+  const usesGemini = getTtsSettings().provider === 'gemini';
+
+  useEffect(() => {
+    if (!usesGemini) return;
+    let cancelled = false;
+    countCachedAudio(words).then(done => {
+      if (!cancelled) setProgress({ done, total: new Set(words.filter(w => w.trim())).size, failed: 0 });
+    });
+    return () => { cancelled = true; };
+  }, [deck, usesGemini]);
+
+  if (!usesGemini) return null;
+
+  const complete = !!progress && progress.total > 0 && progress.done >= progress.total;
+
+  const handleDownload = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isRunning || complete) return;
+    setIsRunning(true);
+    const result = await pregenerateAudio(words, setProgress);
+    setIsRunning(false);
+    if (result.failed > 0) window.alert(`${result.failed}語の音声を作成できませんでした。もう一度お試しください。`);
+  };
+
+  const title = complete
+    ? '音声はダウンロード済み'
+    : isRunning && progress ? `音声をダウンロード中 ${progress.done}/${progress.total}` : '音声をダウンロード';
+
+  return (
+    <button onClick={handleDownload} className={`${buttonClassName} relative`} title={title} aria-label={title} disabled={isRunning}>
+      {complete ? (
+        <i className="fas fa-check text-[10px] text-jec-green"></i>
+      ) : isRunning && progress ? (
+        <span className="text-[8px] font-black text-jec-yellow">{Math.floor((progress.done / Math.max(1, progress.total)) * 100)}%</span>
+      ) : (
+        <i className="fas fa-cloud-download-alt text-[10px]"></i>
+      )}
+    </button>
+  );
+};
+
+export default DeckAudioDownload;
@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { Deck, Flashcard } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import { describeApiError } from '../services/apiContract';
+import { cleanDeck, createCard, createEmptyDeck, moveCard, validateDeck } from '../services/deckEditor';
+import { CARD_DETAIL_FIELDS, CARD_DETAIL_LABELS, CardDetailField, detailText, hasCardDetails, withDetail } from '../services/cardFields';
+import CardDetails from './CardDetails';
+import DeckImport from './DeckImport';
+import DeckExportMenu from './DeckExportMenu';
+
+interface DeckEditorProps {
+  provider: DataProvider;
+  decks: Deck[];
+  onChanged: () => void;
+}
+
+const inputClass = "w-full px-4 py-2 bg-gray-100 dark:bg-black border-2 rounded-xl outline-none text-gray-900 dark:text-white font-bold text-sm transition-colors";
+const DETAIL_PLACEHOLDERS: Partial<Record<CardDetailField, string>> = {
+  exampleTranslation: '私はりんごを食べた。',
+  partOfSpeech: 'n.',
+  ipa: 'ˈæp.əl',
+  furigana: 'りんご',
+  imageUrl: 'https://example.com/apple.png'
+};
+
+const iconButtonClass = "w-8 h-8 flex items-center justify-center rounded-lg text-gray-400 hover:text-jec-yellow disabled:opacity-30 disabled:hover:text-gray-400 transition-colors";
+
+const DeckEditor: React.FC<DeckEditorProps> = ({ provider, decks, onChanged }) => {
+  const [draft, setDraft] = useState<Deck | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [showBack, setShowBack] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const issues = useMemo(() => draft ? validateDeck(draft, decks) : [], [draft, decks]);
+  const previewCard = draft?.cards.find(c => c.id === previewId) ?? draft?.cards[0];
+  const original = draft?.id ? decks.find(d => d.id === draft.id) : undefined;
+
+  const openDeck = (deck: Deck) => {
+    setDraft({ ...deck, cards: deck.cards.map(c => ({ ...c })) });
+    setPreviewId(null);
+    setShowIssues(false);
+    setFeedback(null);
+  };
+
+  // Imported cards extend the open deck, or start a new one named after the file
+  const handleImport = (cards: Flashcard[], suggestedName: string) => {
+    const kept = draft ? draft.cards.filter(c => c.front.trim() || c.back.trim() || c.notes?.trim() || hasCardDetails(c)) : [];
+    setDraft(draft ? { ...draft, cards: [...kept, ...cards] } : { ...createEmptyDeck(), name: suggestedName, cards });
+    setIsImporting(false);
+    setFeedback({ type: 'success', message: `${cards.length}件のカードを追加しました。確認して保存してください。` });
+  };
+
+  const updateCard = (cardId: string, field: 'front' | 'back' | 'notes' | 'example', value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, cards: draft.cards.map(c => c.id === cardId ? { ...c, [field]: value } : c) });
+    setPreviewId(cardId);
+  };
+
+  const updateDetail = (cardId: string, field: CardDetailField, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, cards: draft.cards.map(c => c.id === cardId ? withDetail(c, field, value) : c) });
+    setPreviewId(cardId);
+  };
+
+  const addCard = () => {
+    if (!draft) return;
+    const card = createCard();
+    setDraft({ ...draft, cards: [...draft.cards, card] });
+    setPreviewId(card.id);
+  };
+
+  const removeCard = (cardId: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, cards: draft.cards.filter(c => c.id !== cardId) });
+  };
+
+  const hasIssue = (cardId: string, field: 'front' | 'back') =>
+    showIssues && issues.some(i => i.cardId === cardId && i.field === field);
+
+  const fieldClass = (invalid: boolean) =>
+    `${inputClass} ${invalid ? 'border-red-500/60' : 'border-transparent focus:border-jec-yellow'}`;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setShowIssues(true);
+    if (issues.length > 0) return;
+    const deck = cleanDeck(draft);
+    setIsSaving(true);
+    setFeedback(null);
+    const result = await provider.saveDeck(deck);
+    setIsSaving(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', message: describeApiError(result.error, 'deck') });
+      return;
+    }
+    setDraft(deck);
+    setShowIssues(false);
+    setFeedback({ type: 'success', message: `「${deck.name}」を保存しました。` });
+    onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!draft || !original) return;
+    if (!window.confirm(`「${original.name}」を削除しますか？関連する課題も削除されます。`)) return;
+    setIsSaving(true);
+    const result = await provider.deleteDeck(original.id);
+    setIsSaving(false);
+    if (!result.ok) {
+      setFeedback({ type: 'error', message: describeApiError(result.error, 'deck') });
+      return;
+    }
+    setDraft(null);
+    setFeedback({ type: 'success', message: `「${original.name}」を削除しました。` });
+    onChanged();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+      <div className="bg-white dark:bg-zinc-900 p-6 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-2 h-fit">
+        <button
+          onClick={() => openDeck(createEmptyDeck())}
+          className="w-full mb-4 bg-black dark:bg-jec-green text-white dark:text-black font-black py-3 rounded-2xl active:scale-95 transition-all uppercase tracking-tighter text-sm"
+        >
+          <i className="fas fa-plus mr-2"></i>新しい単語帳
+        </button>
+        {decks.map(deck => (
+          <button
+            key={deck.id}
+            onClick={() => openDeck(deck)}
+            className={`w-full text-left px-4 py-3 rounded-xl text-sm font-black transition-colors ${draft?.id === deck.id ? 'bg-jec-yellow text-black' : 'bg-gray-50 dark:bg-black text-gray-700 dark:text-zinc-300 hover:text-jec-yellow'}`}
+          >
+            {deck.name}
+            <span className="block text-[10px] font-bold opacity-60">{deck.cards.length} 語</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="lg:col-span-3 space-y-6">
+        {feedback && (
+          <div className={`p-4 rounded-2xl border text-xs font-black flex items-center gap-3 ${feedback.type === 'error' ? 'bg-red-500/10 text-red-500 border-red-500/20' : 'bg-jec-green/10 text-jec-green border-jec-green/20'}`}>
+            <i className={`fas ${feedback.type === 'error' ? 'fa-exclamation-triangle' : 'fa-check-circle'}`}></i>
+            {feedback.message}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setIsImporting(!isImporting)}
+            className={`flex items-center gap-2 px-5 py-2 rounded-xl font-black text-xs uppercase tracking-widest transition-all ${isImporting ? 'bg-jec-yellow text-black' : 'bg-gray-100 dark:bg-zinc-900 text-gray-500 dark:text-zinc-400 hover:text-jec-yellow'}`}
+          >
+            <i className="fas fa-file-import"></i>
+            インポート
+          </button>
+          {original && (
+            <DeckExportMenu
+              deck={original}
+              buttonClassName="h-full px-5 py-2 rounded-xl bg-gray-100 dark:bg-zinc-900 text-gray-500 dark:text-zinc-400 hover:text-jec-yellow transition-all"
+            />
+          )}
+        </div>
+
+        {isImporting && (
+          <DeckImport existingCards={draft?.cards ?? []} onImport={handleImport} onCancel={() => setIsImporting(false)} />
+        )}
+
+        {!draft ? (
+          <div className="py-20 text-center bg-gray-50 dark:bg-zinc-900/50 rounded-[3rem] border-2 border-dashed border-gray-200 dark:border-white/5">
+            <i className="fas fa-layer-group text-3xl text-gray-300 dark:text-zinc-700 mb-4"></i>
+            <p className="text-gray-400 dark:text-zinc-500 font-black uppercase tracking-widest text-sm">編集する単語帳を選択してください</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="xl:col-span-2 bg-white dark:bg-zinc-900 p-6 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-3">
+                <label className="block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500">単語帳の名前</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className={fieldClass(showIssues && issues.some(i => i.field === 'name'))}
+                  placeholder="例: Unit 1 基本単語"
+                />
+                {original && original.name !== draft.name.trim() && (
+                  <p className="text-[10px] font-bold text-jec-orange">保存すると学習記録と課題も新しい名前に引き継がれます</p>
+                )}
+              </div>
+
+              <div
+                onClick={() => setShowBack(!showBack)}
+                className={`cursor-pointer rounded-[2.5rem] p-6 min-h-40 flex flex-col items-center justify-center text-center transition-colors ${showBack ? 'bg-black text-white border-4 border-jec-yellow' : 'bg-white dark:bg-zinc-900 border-2 border-gray-50 dark:border-white/10'}`}
+              >
+                <span className={`text-[10px] font-black uppercase tracking-[0.4em] italic mb-3 ${showBack ? 'text-jec-yellow' : 'text-gray-300 dark:text-zinc-700'}`}>
+                  {showBack ? '裏面 (JAPANESE)' : '表面 (ENGLISH)'}
+                </span>
+                <h4 className={`text-2xl font-black tracking-tighter italic break-all ${showBack ? 'text-white' : 'text-gray-900 dark:text-white'}`}>
+                  {(showBack ? previewCard?.back : previewCard?.front) || '—'}
+                </h4>
+                {showBack && previewCard?.notes && (
+                  <p className="mt-3 text-jec-yellow text-xs font-bold italic"><i className="fas fa-info-circle mr-1 opacity-50"></i>{previewCard.notes}</p>
+                )}
+                {showBack && previewCard && <div className="mt-3"><CardDetails card={previewCard} /></div>}
+                <span className="mt-3 text-[10px] font-black text-gray-400 uppercase tracking-widest">TAP TO FLIP</span>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-zinc-900 p-6 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-3">
+              <div className="hidden md:grid grid-cols-[2rem_1fr_1fr_1fr_1fr_8.5rem] gap-3 px-1 text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500">
+                <span>#</span><span>表面（英語）</span><span>裏面（日本語）</span><span>補足</span><span>例文（英語）</span><span></span>
+              </div>
+              {draft.cards.map((card, index) => (
+                <div
+                  key={card.id}
+                  onFocus={() => setPreviewId(card.id)}
+                  className={`grid grid-cols-1 md:grid-cols-[2rem_1fr_1fr_1fr_1fr_8.5rem] gap-3 items-center p-1 rounded-xl ${previewCard?.id === card.id ? 'bg-jec-yellow/5' : ''}`}
+                >
+                  <span className="text-xs font-black text-gray-400 dark:text-zinc-600">{index + 1}</span>
+                  <input type="text" value={card.front} onChange={(e) => updateCard(card.id, 'front', e.target.value)} className={fieldClass(hasIssue(card.id, 'front'))} placeholder="apple" />
+                  <input type="text" value={card.back} onChange={(e) => updateCard(card.id, 'back', e.target.value)} className={fieldClass(hasIssue(card.id, 'back'))} placeholder="りんご" />
+                  <input type="text" value={card.notes || ''} onChange={(e) => updateCard(card.id, 'notes', e.target.value)} className={fieldClass(false)} />
+                  <input type="text" value={card.example || ''} onChange={(e) => updateCard(card.id, 'example', e.target.value)} className={fieldClass(false)} placeholder="I ate an apple." />
+                  <div className="flex">
+                    <button
+                      onClick={() => setDetailsId(detailsId === card.id ? null : card.id)}
+                      aria-expanded={detailsId === card.id}
+                      className={`${iconButtonClass} ${CARD_DETAIL_FIELDS.some(f => f !== 'example' && detailText(card, f)) ? 'text-jec-green' : ''}`}
+                      title="詳細（品詞・発音・画像・タグなど）"
+                    >
+                      <i className="fas fa-sliders-h text-xs"></i>
+                    </button>
+                    <button onClick={() => setDraft({ ...draft, cards: moveCard(draft.cards, index, index - 1) })} disabled={index === 0} className={iconButtonClass} title="上へ">
+                      <i className="fas fa-arrow-up text-xs"></i>
+                    </button>
+                    <button onClick={() => setDraft({ ...draft, cards: moveCard(draft.cards, index, index + 1) })} disabled={index === draft.cards.length - 1} className={iconButtonClass} title="下へ">
+                      <i className="fas fa-arrow-down text-xs"></i>
+                    </button>
+                    <button onClick={() => removeCard(card.id)} className={`${iconButtonClass} hover:text-red-500`} title="削除">
+                      <i className="fas fa-trash text-xs"></i>
+                    </button>
+                  </div>
+                  {detailsId === card.id && (
+                    <div className="md:col-span-6 grid grid-cols-1 md:grid-cols-3 gap-3 p-3 bg-gray-50 dark:bg-black/40 rounded-xl">
+                      {CARD_DETAIL_FIELDS.filter(field => field !== 'example').map(field => (
+                        <label key={field} className="block space-y-1 text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500">
+                          <span>{CARD_DETAIL_LABELS[field]}</span>
+                          {field === 'tags' ? (
+                            // Tags are split on commas, so they are parsed once the field is left
+                            <input type="text" defaultValue={detailText(card, field)} onBlur={(e) => updateDetail(card.id, field, e.target.value)} className={fieldClass(false)} placeholder="Unit 1, 食べ物" />
+                          ) : (
+                            <input type={field === 'imageUrl' ? 'url' : 'text'} value={detailText(card, field)} onChange={(e) => updateDetail(card.id, field, e.target.value)} className={fieldClass(false)} placeholder={DETAIL_PLACEHOLDERS[field]} />
+                          )}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <button onClick={addCard} className="w-full py-3 border-2 border-dashed border-gray-200 dark:border-white/10 rounded-2xl text-xs font-black text-gray-400 hover:text-jec-green hover:border-jec-green transition-colors uppercase tracking-widest">
+                <i className="fas fa-plus mr-2"></i>カードを追加
+              </button>
+            </div>
+
+            {showIssues && issues.length > 0 && (
+              <ul className="p-5 bg-red-500/10 border border-red-500/20 rounded-2xl space-y-1">
+                {issues.map((issue, i) => {
+                  const row = issue.cardId ? draft.cards.findIndex(c => c.id === issue.cardId) + 1 : 0;
+                  return (
+                    <li key={i} className="text-xs font-bold text-red-500">
+                      <i className="fas fa-times-circle mr-2"></i>
+                      {row > 0 && `${row}行目: `}{issue.message}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-grow bg-jec-green text-black font-black py-4 rounded-2xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter"
+              >
+                {isSaving ? '保存中...' : '保存'}
+              </button>
+              {original && (
+                <button onClick={handleDelete} disabled={isSaving} className="px-8 bg-red-500/10 text-red-500 font-black rounded-2xl hover:bg-red-500 hover:text-white transition-all disabled:opacity-50">
+                  削除
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckEditor;
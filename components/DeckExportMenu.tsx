@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { CardReviewState, Deck } from '../types';
+import { EXPORT_FORMAT_LABELS, ExportFormat, downloadBlob, exportDeck } from '../services/deckExport';
+
+interface DeckExportMenuProps {
+  deck: Deck;
+  reviewStates?: Record<string, CardReviewState>;
+  buttonClassName: string;
+}
+
+const DeckExportMenu: React.FC<DeckExportMenuProps> = ({ deck, reviewStates, buttonClassName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    try {
+      const { fileName, blob } = await exportDeck(deck, format, reviewStates);
+      downloadBlob(fileName, blob);
+      setIsOpen(false);
+    } catch (e) {
+      console.error("[Export] Failed to build file", e);
+      window.alert('書き出しに失敗しました。');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(!isOpen)} className={buttonClassName} title="書き出し">
+        <i className="fas fa-file-export text-[10px]"></i>
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-44 bg-white dark:bg-zinc-800 rounded-2xl shadow-2xl border border-gray-100 dark:border-white/10 p-2 z-20">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={busy !== null}
+              className="w-full text-left px-3 py-2 rounded-xl text-xs font-black text-gray-700 dark:text-zinc-200 hover:bg-jec-yellow hover:text-black transition-colors disabled:opacity-50"
+            >
+              {busy === format ? <i className="fas fa-circle-notch fa-spin mr-2"></i> : null}
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+          {reviewStates && (
+            <p className="px-3 pt-2 text-[9px] font-bold text-gray-400 dark:text-zinc-500 leading-relaxed">Ankiには復習スケジュールも含まれます</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckExportMenu;
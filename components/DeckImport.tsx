@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  ColumnMapping, IMPORT_FORMAT_LABELS, ImportFormat, ImportTable,
+  OPTIONAL_COLUMNS, OptionalColumn, applyHeaderRow, buildImportPreview, defaultMapping, detectImportFormat, filterImportGroup, guessMapping,
+  looksLikeHeader, parseImportFile, parseImportText
+} from '../services/deckImport';
+import { CARD_DETAIL_LABELS } from '../services/cardFields';
+
+interface DeckImportProps {
+  existingCards: Flashcard[];
+  onImport: (cards: Flashcard[], suggestedName: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const OPTIONAL_COLUMN_LABELS: Record<OptionalColumn, string> = { notes: '補足', ...CARD_DETAIL_LABELS };
+const selectClass = "w-full px-4 py-2 bg-gray-100 dark:bg-black border-none rounded-xl outline-none text-gray-900 dark:text-white font-bold text-sm";
+
+const DeckImport: React.FC<DeckImportProps> = ({ existingCards, onImport, onCancel }) => {
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [pasted, setPasted] = useState('');
+  const [source, setSource] = useState<{ table: ImportTable; name: string } | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [group, setGroup] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>(defaultMapping);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const table = useMemo(() => {
+    if (!source) return null;
+    const filtered = filterImportGroup(source.table, group);
+    return hasHeader && filtered.rows.length > 0 ? applyHeaderRow(filtered) : filtered;
+  }, [source, group, hasHeader]);
+
+  const groups = useMemo(
+    () => source?.table.groups ? Array.from(new Set(source.table.groups)).filter(Boolean) : [],
+    [source]
+  );
+
+  const preview = useMemo(
+    () => table ? buildImportPreview(table, mapping, existingCards) : [],
+    [table, mapping, existingCards]
+  );
+  const accepted = preview.filter(row => !row.incomplete && !(skipDuplicates && row.duplicate));
+
+  const load = (next: ImportTable, name: string) => {
+    const header = !next.groups && looksLikeHeader(next);
+    setSource({ table: next, name });
+    setHasHeader(header);
+    setGroup('');
+    setMapping(guessMapping(header ? applyHeaderRow(next).columns : next.columns));
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    const detected = detectImportFormat(file.name);
+    setFormat(detected);
+    setIsReading(true);
+    try {
+      load(await parseImportFile(file, detected), file.name.replace(/\.[^.]+$/, ''));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'ファイルを読み込めませんでした。');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handlePaste = () => {
+    if (!pasted.trim() || format === 'apkg') return;
+    load(parseImportText(pasted, format), '');
+  };
+
+  const columnSelect = (value: number | null, onChange: (v: number | null) => void, optional: boolean) => (
+    <select
+      value={value === null ? '' : value}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      className={selectClass}
+    >
+      {optional && <option value="">（使わない）</option>}
+      {table?.columns.map((column, i) => <option key={i} value={i}>{column}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 p-6 rounded-[2.5rem] border border-jec-yellow/30 space-y-5 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-yellow">インポート</h4>
+        <button onClick={onCancel} className="text-gray-400 hover:text-jec-orange transition-colors"><i className="fas fa-times"></i></button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 text-red-500 rounded-2xl border border-red-500/20 text-xs font-black flex items-center gap-3">
+          <i className="fas fa-exclamation-triangle"></i>
+          {error}
+        </div>
+      )}
+
+      {!source ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <label className="flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed border-gray-200 dark:border-white/10 rounded-[2rem] cursor-pointer hover:border-jec-yellow transition-colors">
+            <i className={`fas ${isReading ? 'fa-circle-notch fa-spin' : 'fa-file-upload'} text-3xl text-gray-300 dark:text-zinc-600`}></i>
+            <span className="text-xs font-black text-gray-500 dark:text-zinc-400 uppercase tracking-widest">ファイルを選択</span>
+            <span className="text-[10px] font-bold text-gray-400 dark:text-zinc-600">.csv / .tsv / .txt (Quizlet) / .apkg</span>
+            <input
+              type="file"
+              accept=".csv,.tsv,.tab,.txt,.apkg"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </label>
+          <div className="space-y-3">
+            <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)} className={selectClass}>
+              {(['csv', 'tsv', 'quizlet'] as const).map(f => <option key={f} value={f}>{IMPORT_FORMAT_LABELS[f]}</option>)}
+            </select>
+            <textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={'テキストを貼り付け\napple\tりんご\ndog\t犬'}
+              className={`${selectClass} h-32 resize-none font-mono`}
+            />
+            <button onClick={handlePaste} disabled={!pasted.trim()} className="w-full bg-black dark:bg-white text-white dark:text-black font-black py-2 rounded-xl disabled:opacity-30 text-xs uppercase tracking-widest">
+              読み込む
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2">表面（英語）</label>
+              {columnSelect(mapping.front, (v) => setMapping({ ...mapping, front: v ?? 0 }), false)}
+            </div>
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2">裏面（日本語）</label>
+              {columnSelect(mapping.back, (v) => setMapping({ ...mapping, back: v ?? 0 }), false)}
+            </div>
+            {OPTIONAL_COLUMNS.map(field => (
+              <div key={field}>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2">{OPTIONAL_COLUMN_LABELS[field]}</label>
+                {columnSelect(mapping[field], (v) => setMapping({ ...mapping, [field]: v }), true)}
+              </div>
+            ))}
+            {groups.length > 1 && (
+              <div>
+                <label className="block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2">デッキ</label>
+                <select value={group} onChange={(e) => setGroup(e.target.value)} className={selectClass}>
+                  <option value="">すべて</option>
+                  {groups.map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-6 text-xs font-bold text-gray-500 dark:text-zinc-400">
+            {format !== 'apkg' && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-jec-yellow" />
+                1行目は見出し
+              </label>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} className="accent-jec-yellow" />
+              重複をスキップ
+            </label>
+            <span>
+              {preview.length}件中 <span className="text-jec-green">{accepted.length}件</span>を追加
+              {preview.some(r => r.duplicate) && ` • 重複 ${preview.filter(r => r.duplicate).length}件`}
+              {preview.some(r => r.incomplete) && ` • 空欄あり ${preview.filter(r => r.incomplete).length}件`}
+            </span>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto rounded-2xl border border-gray-100 dark:border-white/5">
+            <table className="w-full text-left text-xs">
+              <tbody>
+                {preview.slice(0, PREVIEW_LIMIT).map((row, i) => {
+                  const skipped = row.incomplete || (skipDuplicates && row.duplicate);
+                  return (
+                    <tr key={i} className={`border-t border-gray-50 dark:border-white/5 ${skipped ? 'opacity-40' : ''}`}>
+                      <td className="py-2 px-3 font-black text-gray-900 dark:text-white">{row.card.front || '—'}</td>
+                      <td className="py-2 px-3 font-bold text-gray-600 dark:text-zinc-300">{row.card.back || '—'}</td>
+                      <td className="py-2 px-3 font-bold text-gray-400 dark:text-zinc-500 italic">{row.card.notes}</td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {row.duplicate && (
+                          <span className="px-2 py-0.5 bg-jec-orange/10 text-jec-orange rounded-lg text-[10px] font-black">
+                            {row.duplicate === 'deck' ? '登録済み' : 'ファイル内で重複'}
+                          </span>
+                        )}
+                        {row.incomplete && <span className="px-2 py-0.5 bg-red-500/10 text-red-500 rounded-lg text-[10px] font-black">空欄</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="py-2 text-center text-[10px] font-black text-gray-400 uppercase tracking-widest">ほか {preview.length - PREVIEW_LIMIT}件</p>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => onImport(accepted.map(r => r.card), group || source.name)}
+              disabled={accepted.length === 0}
+              className="flex-grow bg-jec-green text-black font-black py-3 rounded-2xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter"
+            >
+              {accepted.length}件を追加
+            </button>
+            <button onClick={() => { setSource(null); if (format === 'apkg') setFormat('csv'); }} className="px-6 bg-gray-100 dark:bg-black text-gray-500 font-black rounded-2xl">戻る</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeckImport;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Flashcard } from '../types';
+import { getTtsSettings, playTextToSpeech } from '../services/audio';
+import { SLOW_REPEAT_FACTOR } from '../services/ttsSettings';
+import { FOCUS_RING } from '../services/keyboard';
+import { DICTATION_PASS_ACCURACY, DictationCheck, DictationWordStatus, checkDictation } from '../services/dictation';
+
+interface DictationPracticeProps {
+  card: Flashcard;
+  sentence: string;
+  onAnswered: (check: DictationCheck) => void;
+  onNext: () => void;
+}
+
+const WORD_STYLES: Record<DictationWordStatus, string> = {
+  correct: 'text-white',
+  missing: 'text-jec-orange underline decoration-wavy underline-offset-4',
+  extra: 'text-red-400/70 line-through'
+};
+
+const DictationPractice: React.FC<DictationPracticeProps> = ({ card, sentence, onAnswered, onNext }) => {
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<DictationCheck | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const play = (slow: boolean = false) => {
+    const settings = getTtsSettings();
+    playTextToSpeech(sentence, slow ? { ...settings, rate: settings.rate * SLOW_REPEAT_FACTOR, slowRepeat: false } : settings);
+    inputRef.current?.focus();
+  };
+
+  useEffect(() => {
+    setInput('');
+    setResult(null);
+    play();
+  }, [card.id]);
+
+  const submit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (result) {
+      onNext();
+      return;
+    }
+    if (!input.trim()) return;
+    const check = checkDictation(input, sentence);
+    setResult(check);
+    onAnswered(check);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter checks the answer; Shift+Enter still starts a new line
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) submit(e);
+  };
+
+  const passed = !!result && result.accuracy >= DICTATION_PASS_ACCURACY;
+  const tone = !result ? 'border-jec-yellow' : passed ? 'border-jec-green' : 'border-jec-orange';
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8 py-6">
+      <div className={`bg-zinc-900 rounded-[3rem] p-10 text-center border-4 ${tone} transition-colors shadow-2xl`}>
+        <span className="block text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic mb-6">聞こえた英文を入力</span>
+        <div className="flex justify-center gap-4">
+          <button type="button" onClick={() => play()} aria-label="英文を再生" className={`w-24 h-24 bg-black rounded-full flex items-center justify-center hover:scale-105 transition-all border-2 border-jec-yellow/30 ${FOCUS_RING}`}>
+            <i className="fas fa-volume-up text-3xl text-jec-yellow"></i>
+          </button>
+          <button type="button" onClick={() => play(true)} aria-label="ゆっくり再生" className={`w-24 h-24 bg-black rounded-full flex flex-col items-center justify-center hover:scale-105 transition-all border-2 border-white/10 ${FOCUS_RING}`}>
+            <i className="fas fa-walking text-2xl text-zinc-400"></i>
+            <span className="mt-1 text-[9px] font-black text-zinc-500 uppercase tracking-widest">ゆっくり</span>
+          </button>
+        </div>
+
+        {result && (
+          <div className="mt-8 space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
+            <p className="text-xl md:text-2xl font-black leading-relaxed" aria-label={sentence}>
+              {result.words.map((word, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && ' '}
+                  <span className={WORD_STYLES[word.status]}>{word.text}</span>
+                </React.Fragment>
+              ))}
+            </p>
+            <p className="text-jec-yellow/70 text-xs font-bold">
+              <span className="text-white">{card.front}</span> — {card.back}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={submit} className="space-y-4">
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          readOnly={!!result}
+          rows={2}
+          autoComplete="off"
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          placeholder="I ate an apple."
+          aria-label="聞こえた英文"
+          className="w-full px-8 py-5 bg-zinc-900 border-2 border-white/5 focus:border-jec-yellow rounded-[2rem] outline-none text-white font-bold text-lg resize-none"
+        />
+
+        {result && (
+          <div role="status" className={`p-5 rounded-2xl text-center ${passed ? 'bg-jec-green/10 text-jec-green' : 'bg-jec-orange/10 text-jec-orange'}`}>
+            <p className="text-sm font-black uppercase tracking-widest">
+              {result.accuracy >= 1 ? '完璧！' : passed ? 'よく聞き取れました' : 'もう少し！'}
+              <span className="ml-2 opacity-60">{result.matched} / {result.total}語</span>
+            </p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!result && !input.trim()}
+          className={`w-full py-5 rounded-[2rem] font-black uppercase tracking-widest bg-jec-green text-black ${FOCUS_RING} shadow-xl hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100`}
+        >
+          {result ? <>次へ <i className="fas fa-arrow-right ml-2"></i></> : <>答え合わせ <i className="fas fa-check ml-2"></i></>}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DictationPractice;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { ClassGroup, Deck, Exam, ExamQuestionType, ExamResult, StudyDirection, User } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import { ApiResult, describeApiError } from '../services/apiContract';
+import { EXAM_QUESTION_TYPE_LABELS, MAX_EXAM_MINUTES, MAX_EXAM_QUESTIONS, createExamSeed, examPercentage, findExamResult } from '../services/exam';
+import { STUDY_DIRECTION_LABELS } from '../services/sessionModes';
+import { createSessionId } from '../services/syncQueue';
+
+interface ExamManagerProps {
+  provider: DataProvider;
+  user: User;
+  decks: Deck[];
+  classes: ClassGroup[];
+  exams: Exam[];
+  examResults: ExamResult[];
+  onChanged: () => void;
+}
+
+const inputClass = "w-full px-5 py-3 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold text-sm";
+const sectionClass = "bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-5";
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-2";
+
+const emptyDraft = () => ({
+  classId: '',
+  deckName: '',
+  title: '',
+  questionCount: 20,
+  timeLimitMinutes: 10,
+  questionTypes: ['choice'] as ExamQuestionType[],
+  direction: 'enToJa' as StudyDirection,
+  seed: createExamSeed(),
+  dueDate: ''
+});
+
+const ExamManager: React.FC<ExamManagerProps> = ({ provider, user, decks, classes, exams, examResults, onChanged }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedExam, setExpandedExam] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const deck = decks.find(d => d.name === draft.deckName);
+
+  const run = async (action: () => Promise<ApiResult<void>>) => {
+    setIsSaving(true);
+    setError(null);
+    const result = await action();
+    setIsSaving(false);
+    if (!result.ok) {
+      setError(describeApiError(result.error));
+      return false;
+    }
+    onChanged();
+    return true;
+  };
+
+  const toggleType = (type: ExamQuestionType) => {
+    const questionTypes = draft.questionTypes.includes(type)
+      ? draft.questionTypes.filter(t => t !== type)
+      : [...draft.questionTypes, type];
+    setDraft({ ...draft, questionTypes });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.classId || !deck || !draft.dueDate || draft.questionTypes.length === 0 || !draft.seed.trim()) return;
+    const exam: Exam = {
+      id: createSessionId(),
+      classId: draft.classId,
+      deckName: deck.name,
+      title: draft.title.trim() || `${deck.name} テスト`,
+      questionCount: Math.max(1, Math.min(draft.questionCount, deck.cards.length, MAX_EXAM_QUESTIONS)),
+      timeLimitMinutes: Math.max(1, Math.min(draft.timeLimitMinutes, MAX_EXAM_MINUTES)),
+      questionTypes: draft.questionTypes,
+      direction: draft.direction,
+      seed: draft.seed.trim(),
+      // Closes at the end of the chosen day
+      dueDate: new Date(`${draft.dueDate}T23:59:59`).toISOString(),
+      createdBy: user.username,
+      createdAt: new Date().toISOString()
+    };
+    if (await run(() => provider.saveExam(exam))) setDraft(emptyDraft());
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-500/10 text-red-500 rounded-2xl border border-red-500/20 text-xs font-black flex items-center gap-3">
+          <i className="fas fa-exclamation-triangle"></i>
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className={sectionClass}>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-orange">新しい試験</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2">
+            <label className={labelClass}>タイトル</label>
+            <input type="text" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} className={inputClass} placeholder="例: 第3週 単語テスト" />
+          </div>
+          <div>
+            <label className={labelClass}>クラス</label>
+            <select value={draft.classId} onChange={(e) => setDraft({ ...draft, classId: e.target.value })} className={inputClass} required>
+              <option value="">選択</option>
+              {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>単語帳</label>
+            <select value={draft.deckName} onChange={(e) => setDraft({ ...draft, deckName: e.target.value })} className={inputClass} required>
+              <option value="">選択</option>
+              {decks.map(d => <option key={d.id} value={d.name}>{d.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>問題数{deck && ` (最大 ${Math.min(deck.cards.length, MAX_EXAM_QUESTIONS)})`}</label>
+            <input type="number" min={1} max={MAX_EXAM_QUESTIONS} value={draft.questionCount} onChange={(e) => setDraft({ ...draft, questionCount: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>制限時間 (分)</label>
+            <input type="number" min={1} max={MAX_EXAM_MINUTES} value={draft.timeLimitMinutes} onChange={(e) => setDraft({ ...draft, timeLimitMinutes: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>出題方向 (4択)</label>
+            <select value={draft.direction} onChange={(e) => setDraft({ ...draft, direction: e.target.value as StudyDirection })} className={inputClass}>
+              {(Object.keys(STUDY_DIRECTION_LABELS) as StudyDirection[]).map(d => <option key={d} value={d}>{STUDY_DIRECTION_LABELS[d]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>締切日</label>
+            <input type="date" value={draft.dueDate} onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })} className={inputClass} required />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>問題形式</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(EXAM_QUESTION_TYPE_LABELS) as ExamQuestionType[]).map(type => (
+                <button
+                  type="button"
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  className={`px-4 py-2 rounded-xl text-xs font-black transition-colors ${draft.questionTypes.includes(type) ? 'bg-jec-orange text-black' : 'bg-gray-100 dark:bg-black text-gray-500 dark:text-zinc-400'}`}
+                >
+                  {EXAM_QUESTION_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>シード（同じシードなら同じ問題順）</label>
+            <div className="flex gap-2">
+              <input type="text" value={draft.seed} onChange={(e) => setDraft({ ...draft, seed: e.target.value })} className={`${inputClass} font-mono`} required />
+              <button type="button" onClick={() => setDraft({ ...draft, seed: createExamSeed() })} className="px-4 bg-gray-100 dark:bg-black text-gray-500 rounded-2xl hover:text-jec-yellow" title="新しいシード">
+                <i className="fas fa-dice"></i>
+              </button>
+            </div>
+          </div>
+        </div>
+        <button type="submit" disabled={isSaving || classes.length === 0 || draft.questionTypes.length === 0} className="w-full bg-black dark:bg-jec-orange text-white dark:text-black font-black py-3 rounded-2xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter">
+          試験を作成
+        </button>
+      </form>
+
+      <div className={sectionClass}>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-yellow">試験結果</h4>
+        {exams.length === 0 && (
+          <p className="text-xs font-black text-gray-400 dark:text-zinc-600 uppercase tracking-widest text-center py-8">試験はまだありません</p>
+        )}
+        {[...exams]
+          .sort((a, b) => new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime())
+          .map(exam => {
+            const group = classes.find(c => c.id === exam.classId);
+            const members = group?.members ?? [];
+            const results = examResults.filter(r => r.examId === exam.id);
+            const average = results.length > 0
+              ? Math.round(results.reduce((sum, r) => sum + examPercentage(r), 0) / results.length)
+              : null;
+            const isExpanded = expandedExam === exam.id;
+            return (
+              <div key={exam.id} className="bg-gray-50 dark:bg-black rounded-2xl overflow-hidden">
+                <div className="flex items-center justify-between p-4 cursor-pointer" onClick={() => setExpandedExam(isExpanded ? null : exam.id)}>
+                  <div>
+                    <span className="block text-sm font-black text-gray-900 dark:text-white">{exam.title}</span>
+                    <span className="text-[10px] font-bold text-gray-400 dark:text-zinc-500">
+                      {group?.name ?? '削除されたクラス'} • {exam.deckName} • {exam.questionCount}問 • {exam.timeLimitMinutes}分 • {exam.questionTypes.map(t => EXAM_QUESTION_TYPE_LABELS[t]).join('/')} • 締切 {new Date(exam.dueDate).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm font-black text-jec-green whitespace-nowrap">
+                      {results.length} / {members.length}{average !== null && ` • 平均 ${average}%`}
+                    </span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); if (window.confirm('この試験と結果を削除しますか？')) run(() => provider.deleteExam(exam.id)); }}
+                      className="w-8 h-8 text-gray-400 hover:text-red-500"
+                      title="削除"
+                    >
+                      <i className="fas fa-trash text-xs"></i>
+                    </button>
+                    <i className={`fas fa-chevron-${isExpanded ? 'up' : 'down'} text-gray-400 text-xs`}></i>
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div className="px-4 pb-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {members.map(username => {
+                      const result = findExamResult(exam.id, username, results);
+                      return (
+                        <div key={username} className="flex items-center justify-between p-3 bg-white dark:bg-zinc-900 rounded-xl text-xs font-bold">
+                          <span className="text-gray-900 dark:text-white">@{username}</span>
+                          <span className={result ? 'text-jec-green' : 'text-gray-400'}>
+                            {result
+                              ? `${result.score} / ${result.total} (${examPercentage(result)}%)${result.timedOut ? ' • 時間切れ' : ''}`
+                              : '未受験'}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+};
+
+export default ExamManager;
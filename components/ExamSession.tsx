@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Deck, Exam, ExamResult, User } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import { describeApiError } from '../services/apiContract';
+import { playTextToSpeech } from '../services/audio';
+import { answerText, promptText } from '../services/studyDirection';
+import {
+  EXAM_QUESTION_TYPE_LABELS, ExamAttempt, buildExamQuestions, buildExamResult, clearExamAttempt, examPercentage,
+  formatClock, gradeExamAnswer, loadExamAttempt, remainingSeconds, storeExamAttempt
+} from '../services/exam';
+import { createSessionId } from '../services/syncQueue';
+
+interface ExamSessionProps {
+  provider: DataProvider;
+  user: User;
+  exam: Exam;
+  deck: Deck;
+  onClose: (submitted: boolean) => void;
+}
+
+const ExamSession: React.FC<ExamSessionProps> = ({ provider, user, exam, deck, onClose }) => {
+  const questions = useMemo(() => buildExamQuestions(exam, deck), [exam, deck]);
+  const [attempt, setAttempt] = useState<ExamAttempt | null>(() => loadExamAttempt(user.username, exam.id));
+  const [index, setIndex] = useState(() => attempt ? Math.min(attempt.responses.length, questions.length - 1) : 0);
+  const [response, setResponse] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(() => attempt ? remainingSeconds(exam, attempt.startedAt) : exam.timeLimitMinutes * 60);
+  const [result, setResult] = useState<ExamResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const question = questions[index];
+
+  const submit = useCallback(async (finished: ExamAttempt, timedOut: boolean) => {
+    const answers = questions.map((q, i) => gradeExamAnswer(q, finished.responses[i] ?? ''));
+    const next = result ?? buildExamResult(exam, user.username, answers, new Date(finished.startedAt).toISOString(), timedOut, finished.resultId);
+    setResult(next);
+    setIsSaving(true);
+    setError(null);
+    const saved = await provider.saveExamResult(next);
+    setIsSaving(false);
+    if (saved.ok || saved.error.kind === 'conflict') clearExamAttempt(user.username, exam.id);
+    if (!saved.ok) setError(describeApiError(saved.error, 'exam'));
+  }, [questions, result, exam, user.username, provider]);
+
+  // The clock keeps running across reloads; running out submits what was answered
+  useEffect(() => {
+    if (!attempt || result) return;
+    const tick = () => {
+      const left = remainingSeconds(exam, attempt.startedAt);
+      setSecondsLeft(left);
+      if (left === 0) submit(attempt, true);
+    };
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [attempt, result, exam, submit]);
+
+  useEffect(() => {
+    if (!attempt || result || !question) return;
+    setResponse(attempt.responses[index] ?? '');
+    if (question.type === 'listening') playTextToSpeech(question.card.front);
+    if (question.type === 'typing') inputRef.current?.focus();
+  }, [index, attempt?.resultId]);
+
+  const start = () => {
+    const next: ExamAttempt = { resultId: createSessionId(), startedAt: Date.now(), responses: [] };
+    storeExamAttempt(user.username, exam.id, next);
+    setAttempt(next);
+  };
+
+  const answerAndContinue = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!attempt) return;
+    const responses = [...attempt.responses];
+    responses[index] = response;
+    const next = { ...attempt, responses };
+    storeExamAttempt(user.username, exam.id, next);
+    setAttempt(next);
+    if (index + 1 < questions.length) setIndex(index + 1);
+    else if (window.confirm('解答を提出しますか？提出後はやり直せません。')) submit(next, false);
+  };
+
+  const handleExit = () => {
+    if (!attempt || result || window.confirm('試験を中断しますか？制限時間はそのまま進みます。')) onClose(!!result);
+  };
+
+  if (questions.length === 0) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-20 space-y-6">
+        <p className="text-xs font-black text-gray-400 uppercase tracking-widest">この試験の単語帳にカードがありません</p>
+        <button onClick={() => onClose(false)} className="px-8 py-3 bg-gray-100 dark:bg-zinc-900 text-gray-500 font-black rounded-2xl">戻る</button>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6 animate-in fade-in zoom-in duration-500">
+        <div className="bg-white dark:bg-zinc-900 p-10 rounded-[3rem] shadow-2xl border border-gray-100 dark:border-white/10 text-center">
+          <div className="w-20 h-20 bg-jec-yellow text-black rounded-[2rem] flex items-center justify-center mx-auto mb-6 text-3xl shadow-lg rotate-6"><i className="fas fa-clipboard-check"></i></div>
+          <h2 className="text-3xl font-black text-gray-900 dark:text-white tracking-tighter uppercase italic">{exam.title}</h2>
+          {result.timedOut && <p className="mt-2 text-xs font-black text-jec-orange uppercase tracking-widest">時間切れで提出されました</p>}
+          <div className="grid grid-cols-2 gap-4 mt-8">
+            <div className="p-6 bg-gray-50 dark:bg-black rounded-[2rem]">
+              <span className="block text-3xl font-black text-jec-orange italic">{result.score} / {result.total}</span>
+              <span className="text-[9px] text-gray-400 uppercase font-black tracking-widest mt-1">得点</span>
+            </div>
+            <div className="p-6 bg-gray-50 dark:bg-black rounded-[2rem]">
+              <span className="block text-3xl font-black text-jec-green italic">{examPercentage(result)}%</span>
+              <span className="text-[9px] text-gray-400 uppercase font-black tracking-widest mt-1">正答率</span>
+            </div>
+          </div>
+          {error && (
+            <div className="mt-6 p-4 bg-red-500/10 text-red-500 rounded-2xl border border-red-500/20 text-xs font-black flex items-center justify-between gap-3">
+              <span><i className="fas fa-exclamation-triangle mr-2"></i>{error}</span>
+              {attempt && loadExamAttempt(user.username, exam.id) && (
+                <button onClick={() => submit(attempt, result.timedOut)} disabled={isSaving} className="px-4 py-2 bg-red-500 text-white rounded-xl disabled:opacity-50">再送信</button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-zinc-900 p-6 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-2">
+          {questions.map((q, i) => {
+            const answer = result.answers[i];
+            const given = q.type === 'typing'
+              ? answer.response
+              : q.choices.find(c => c.id === answer.response);
+            return (
+              <div key={q.card.id} className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-black rounded-xl text-xs font-bold">
+                <i className={`fas ${answer.correct ? 'fa-check text-jec-green' : 'fa-times text-jec-orange'} w-4`}></i>
+                <span className="text-gray-400 w-16">{EXAM_QUESTION_TYPE_LABELS[q.type]}</span>
+                <span className="flex-grow text-gray-900 dark:text-white">
+                  {promptText(q.card, q.direction)} → {answerText(q.card, q.direction)}
+                </span>
+                {!answer.correct && (
+                  <span className="text-jec-orange italic">
+                    {typeof given === 'string' ? given || '未回答' : given ? answerText(given, q.direction) : '未回答'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={() => onClose(true)} disabled={isSaving} className="w-full bg-black dark:bg-jec-orange text-white dark:text-black font-black py-5 rounded-2xl text-lg uppercase tracking-tighter shadow-xl active:scale-95 transition-all disabled:opacity-50">
+          ダッシュボードへ戻る
+        </button>
+      </div>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <div className="max-w-xl mx-auto text-center space-y-8 py-10 animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <h2 className="text-4xl font-black text-white italic tracking-tighter uppercase">{exam.title}</h2>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-6 bg-zinc-900 rounded-[2rem] border border-white/5">
+            <span className="block text-2xl font-black text-jec-yellow italic">{questions.length}</span>
+            <span className="text-[9px] text-zinc-500 uppercase font-black tracking-widest">問題</span>
+          </div>
+          <div className="p-6 bg-zinc-900 rounded-[2rem] border border-white/5">
+            <span className="block text-2xl font-black text-jec-yellow italic">{exam.timeLimitMinutes}分</span>
+            <span className="text-[9px] text-zinc-500 uppercase font-black tracking-widest">制限時間</span>
+          </div>
+          <div className="p-6 bg-zinc-900 rounded-[2rem] border border-white/5">
+            <span className="block text-sm font-black text-jec-yellow">{exam.questionTypes.map(t => EXAM_QUESTION_TYPE_LABELS[t]).join(' / ')}</span>
+            <span className="text-[9px] text-zinc-500 uppercase font-black tracking-widest">形式</span>
+          </div>
+        </div>
+        <p className="text-xs font-bold text-zinc-400 leading-relaxed">
+          受験は1回だけです。開始するとタイマーが始まり、途中で閉じても止まりません。<br />
+          正解は提出後にまとめて表示されます。
+        </p>
+        <div className="flex gap-4">
+          <button onClick={() => onClose(false)} className="px-8 bg-zinc-900 text-zinc-500 font-black rounded-2xl">戻る</button>
+          <button onClick={start} className="flex-grow bg-jec-orange text-black font-black py-5 rounded-2xl text-lg uppercase tracking-tighter shadow-xl active:scale-95 transition-all">
+            試験を開始
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 space-y-8">
+      <div className="flex items-center justify-between">
+        <button onClick={handleExit} className="w-12 h-12 flex items-center justify-center bg-zinc-900 rounded-2xl text-zinc-500 hover:text-jec-orange transition-colors border border-white/5"><i className="fas fa-times"></i></button>
+        <span className="text-xs font-black text-zinc-500 uppercase tracking-widest">{index + 1} / {questions.length} • {EXAM_QUESTION_TYPE_LABELS[question.type]}</span>
+        <span className={`px-4 py-2 rounded-2xl font-black italic text-sm ${secondsLeft <= 60 ? 'bg-jec-orange text-black animate-pulse' : 'bg-zinc-900 text-jec-yellow'}`}>
+          <i className="fas fa-stopwatch mr-2"></i>{formatClock(secondsLeft)}
+        </span>
+      </div>
+
+      <div className="bg-zinc-900 rounded-[3rem] p-10 text-center border-4 border-jec-yellow/30 shadow-2xl">
+        {question.type === 'listening' ? (
+          <button type="button" onClick={() => playTextToSpeech(question.card.front)} className="w-28 h-28 mx-auto bg-black rounded-full flex items-center justify-center hover:scale-105 transition-all border-2 border-jec-yellow/30">
+            <i className="fas fa-volume-up text-4xl text-jec-yellow"></i>
+          </button>
+        ) : (
+          <h3 className="text-4xl md:text-5xl font-black text-white tracking-tighter italic">{promptText(question.card, question.direction)}</h3>
+        )}
+      </div>
+
+      <form onSubmit={answerAndContinue} className="space-y-4">
+        {question.type === 'typing' ? (
+          <input
+            ref={inputRef}
+            type="text"
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            autoComplete="off"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            placeholder="answer"
+            className="w-full px-8 py-5 bg-zinc-900 border-2 border-white/5 focus:border-jec-yellow rounded-[2rem] outline-none text-white font-black text-2xl text-center"
+          />
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {question.choices.map(choice => (
+              <button
+                type="button"
+                key={choice.id}
+                onClick={() => setResponse(choice.id)}
+                className={`p-6 rounded-3xl font-black text-lg transition-all border-2 shadow-lg ${response === choice.id ? 'bg-jec-yellow text-black border-jec-yellow' : 'bg-zinc-900 text-white border-transparent hover:border-jec-yellow'}`}
+              >
+                {answerText(choice, question.direction)}
+              </button>
+            ))}
+          </div>
+        )}
+        <button type="submit" className="w-full py-5 rounded-[2rem] font-black uppercase tracking-widest bg-jec-green text-black shadow-xl hover:scale-105 transition-all">
+          {index + 1 < questions.length
+            ? <>{response ? '次へ' : 'スキップ'} <i className="fas fa-arrow-right ml-2"></i></>
+            : <>提出 <i className="fas fa-paper-plane ml-2"></i></>}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ExamSession;
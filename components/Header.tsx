@@ -3,13 +3,16 @@ import { User } from '../types';
 
 interface HeaderProps {
   user: User;
+  pendingSync: number;
   onLogout: () => void;
+  onProfileClick: () => void;
+  onTeacherClick?: () => void;
   onSettingsClick: () => void;
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onLogout, onSettingsClick, isDarkMode, onToggleDarkMode }) => {
+const Header: React.FC<HeaderProps> = ({ user, pendingSync, onLogout, onProfileClick, onTeacherClick, onSettingsClick, isDarkMode, onToggleDarkMode }) => {
   return (
     <header className="bg-white dark:bg-black border-b border-gray-100 dark:border-white/10 sticky top-0 z-50 transition-colors duration-300">
       <div className="container mx-auto px-4 h-16 flex items-center justify-between">
@@ -41,6 +44,17 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, onSettingsClick, isDark
           </div>
           
           <div className="flex items-center bg-gray-50 dark:bg-white/5 p-1 rounded-2xl border border-gray-100 dark:border-white/5">
+            {pendingSync > 0 && (
+              <div
+                role="status"
+                aria-label={`同期待ち ${pendingSync}件`}
+                title={`同期待ち ${pendingSync}件 • オンラインに戻ると自動で送信されます`}
+                className="relative w-10 h-10 flex items-center justify-center text-jec-orange"
+              >
+                <i className="fas fa-cloud-upload-alt text-sm"></i>
+                <span className="absolute top-1 right-0.5 min-w-4 h-4 px-1 flex items-center justify-center bg-jec-orange text-black rounded-full text-[9px] font-black">{pendingSync}</span>
+              </div>
+            )}
             <button 
               onClick={onToggleDarkMode}
               className="w-10 h-10 flex items-center justify-center text-gray-500 dark:text-slate-400 hover:text-jec-yellow transition-all"
@@ -48,6 +62,22 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, onSettingsClick, isDark
             >
               <i className={`fas ${isDarkMode ? 'fa-sun' : 'fa-moon'} text-sm`}></i>
             </button>
+            {onTeacherClick && (
+              <button 
+                onClick={onTeacherClick}
+                className="w-10 h-10 flex items-center justify-center text-gray-500 dark:text-slate-400 hover:text-jec-yellow transition-all"
+                title="クラスの進捗"
+              >
+                <i className="fas fa-chalkboard-teacher text-sm"></i>
+              </button>
+            )}
+            <button 
+              onClick={onProfileClick}
+              className="w-10 h-10 flex items-center justify-center text-gray-500 dark:text-slate-400 hover:text-jec-green transition-all"
+              title="アカウント設定"
+            >
+              <i className="fas fa-user-cog text-sm"></i>
+            </button>
             <button 
               onClick={onLogout}
               className="w-10 h-10 flex items-center justify-center text-gray-500 dark:text-slate-400 hover:text-jec-orange transition-all"
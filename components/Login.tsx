@@ -1,64 +1,86 @@
-import React, { useState } from 'react';
-import { hashPassword, loginUser, registerUser } from '../services/googleSheets';
+import React, { useMemo, useState } from 'react';
+import { DataProvider } from '../services/dataProvider';
+import { describeApiError } from '../services/apiContract';
+import { StoredSession } from '../services/session';
+import { checkPasswordStrength, createCredential, hashForLogin, legacyHashPassword, legacyLoginProof } from '../services/password';
+import PasswordRules from './PasswordRules';
+import PasswordReset from './PasswordReset';
 
 interface LoginProps {
-  onLogin: (username: string, studentName?: string, email?: string) => void;
-  scriptUrl: string;
+  onLogin: (session: StoredSession) => void;
+  provider: DataProvider;
+  notice?: string | null;
   isDarkMode: boolean;
   toggleDarkMode: () => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, scriptUrl, isDarkMode, toggleDarkMode }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, provider, notice, isDarkMode, toggleDarkMode }) => {
   const [username, setUsername] = useState('');
   const [studentName, setStudentName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isRegistering, setIsRegistering] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(notice ?? null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
+
+  const passwordRules = useMemo(() => checkPasswordStrength(password, username), [password, username]);
+  const isPasswordStrong = passwordRules.every(rule => rule.passed);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!username.trim() || !password.trim()) return;
     if (isRegistering && (!studentName.trim() || !email.trim())) return;
+    if (isRegistering && !isPasswordStrong) {
+      setError("パスワードが条件を満たしていません。");
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
+    setInfo(null);
 
     try {
-      const pHash = await hashPassword(password);
-      
       if (isRegistering) {
-        const result = await registerUser(scriptUrl, {
-          username,
-          studentName,
-          email,
-          passwordHash: pHash,
-          rawPassword: password 
-        });
-        if (result.includes("SUCCESS")) {
-          onLogin(username, studentName, email);
-        } else if (result.includes("EXISTS")) {
-          setError("このユーザーIDは既に使用されています。");
-        } else {
-          setError("登録に失敗しました。もう一度お試しください。");
+        const credential = await createCredential(password);
+        const result = await provider.registerUser({ username, studentName, email, ...credential });
+        if (!result.ok) {
+          setError(describeApiError(result.error, 'register'));
+          return;
         }
-      } else {
-        const result = await loginUser(scriptUrl, username, pHash);
-        try {
-          const data = JSON.parse(result);
-          if (data.status === "SUCCESS") {
-            onLogin(username, data.studentName, data.email);
-          } else {
-            setError("ユーザーIDまたはパスワードが正しくありません。");
-          }
-        } catch {
-          if (result.includes("SUCCESS")) {
-            onLogin(username);
-          } else {
-            setError("ユーザーIDまたはパスワードが正しくありません。");
-          }
+      }
+
+      const params = await provider.getPasswordParams(username);
+      if (!params.ok) {
+        setError(describeApiError(params.error, 'login'));
+        return;
+      }
+
+      const [passwordHash, legacyProof] = await Promise.all([
+        hashForLogin(password, params.data),
+        legacyHashPassword(password).then(legacyHash => legacyLoginProof(legacyHash, params.data))
+      ]);
+      const result = await provider.loginUser(username, passwordHash, legacyProof);
+      if (result.ok) {
+        if (result.data.upgradePassword) {
+          // Legacy account: replace the unsalted hash now that the password is known to be correct
+          provider.setSessionToken(result.data.token);
+          const upgraded = await provider.upgradePassword(username, await createCredential(password));
+          if (!upgraded.ok) console.warn(`[Auth] Password upgrade deferred: ${upgraded.error.kind}`);
         }
+        onLogin({
+          token: result.data.token,
+          user: {
+            username,
+            studentName: result.data.studentName ?? (isRegistering ? studentName : undefined),
+            email: result.data.email ?? (isRegistering ? email : undefined),
+            role: result.data.role,
+            isLoggedIn: true
+          }
+        });
+      } else {
+        setError(describeApiError(result.error, 'login'));
       }
     } catch (err) {
       setError("接続エラーが発生しました。");
@@ -92,10 +114,10 @@ const Login: React.FC<LoginProps> = ({ onLogin, scriptUrl, isDarkMode, toggleDar
           </div>
           
           <h2 className="text-3xl font-black text-gray-900 dark:text-white tracking-tighter">
-            {isRegistering ? '新規アカウント作成' : "Welcome! Let's begin!"}
+            {isResettingPassword ? 'パスワード再設定' : isRegistering ? '新規アカウント作成' : "Welcome! Let's begin!"}
           </h2>
           <p className="text-gray-400 dark:text-zinc-500 mt-2 text-xs font-bold uppercase tracking-widest">
-            {isRegistering ? '最速の学習体験を始めましょう' : 'サインインして学習を再開'}
+            {isResettingPassword ? '登録メールに確認コードを送信します' : isRegistering ? '最速の学習体験を始めましょう' : 'サインインして学習を再開'}
           </p>
         </div>
 
@@ -106,80 +128,113 @@ const Login: React.FC<LoginProps> = ({ onLogin, scriptUrl, isDarkMode, toggleDar
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-5">
-          {isRegistering && (
-            <div className="space-y-5">
-              <div>
-                <input
-                  type="text"
-                  value={studentName}
-                  onChange={(e) => setStudentName(e.target.value)}
-                  className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-orange outline-none text-gray-900 dark:text-white font-bold"
-                  placeholder="氏名（ニックネーム可）"
-                  required={isRegistering}
-                />
-              </div>
-              <div>
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-orange outline-none text-gray-900 dark:text-white font-bold"
-                  placeholder="メールアドレス"
-                  required={isRegistering}
-                />
+        {info && (
+          <div className="mb-6 p-4 bg-jec-green/10 border border-jec-green/20 text-jec-green text-xs font-black rounded-2xl flex items-center gap-3">
+            <i className="fas fa-check-circle"></i>
+            {info}
+          </div>
+        )}
+
+        {isResettingPassword ? (
+          <PasswordReset
+            provider={provider}
+            initialUsername={username}
+            onError={setError}
+            onCancel={() => { setIsResettingPassword(false); setError(null); }}
+            onComplete={() => {
+              setIsResettingPassword(false);
+              setError(null);
+              setPassword('');
+              setInfo('パスワードを再設定しました。新しいパスワードでログインしてください。');
+            }}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {isRegistering && (
+              <div className="space-y-5">
+                <div>
+                  <input
+                    type="text"
+                    value={studentName}
+                    onChange={(e) => setStudentName(e.target.value)}
+                    className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-orange outline-none text-gray-900 dark:text-white font-bold"
+                    placeholder="氏名（ニックネーム可）"
+                    required={isRegistering}
+                  />
+                </div>
+                <div>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-orange outline-none text-gray-900 dark:text-white font-bold"
+                    placeholder="メールアドレス"
+                    required={isRegistering}
+                  />
+                </div>
               </div>
+            )}
+
+            <div>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold"
+                placeholder="ユーザーID"
+                required
+                autoComplete="username"
+              />
             </div>
-          )}
-
-          <div>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold"
-              placeholder="ユーザーID"
-              required
-              autoComplete="username"
-            />
-          </div>
 
-          <div>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-green outline-none text-gray-900 dark:text-white font-bold"
-              placeholder="パスワード"
-              required
-              autoComplete={isRegistering ? "new-password" : "current-password"}
-            />
-          </div>
+            <div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-green outline-none text-gray-900 dark:text-white font-bold"
+                placeholder="パスワード"
+                required
+                autoComplete={isRegistering ? "new-password" : "current-password"}
+              />
+              {isRegistering && password && <PasswordRules rules={passwordRules} />}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full mt-4 bg-black dark:bg-jec-orange text-white dark:text-black font-black py-5 rounded-2xl shadow-xl hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3 text-lg uppercase tracking-tighter"
+            >
+              {isLoading ? (
+                <i className="fas fa-spinner fa-spin"></i>
+              ) : (
+                <>
+                  {isRegistering ? 'アカウント登録' : '学習を開始'}
+                  <i className="fas fa-chevron-right text-xs"></i>
+                </>
+              )}
+            </button>
+          </form>
+        )}
 
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full mt-4 bg-black dark:bg-jec-orange text-white dark:text-black font-black py-5 rounded-2xl shadow-xl hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3 text-lg uppercase tracking-tighter"
-          >
-            {isLoading ? (
-              <i className="fas fa-spinner fa-spin"></i>
-            ) : (
-              <>
-                {isRegistering ? 'アカウント登録' : '学習を開始'}
-                <i className="fas fa-chevron-right text-xs"></i>
-              </>
+        {!isResettingPassword && (
+          <div className="mt-8 flex flex-col items-center gap-3">
+            <button 
+              onClick={() => { setIsRegistering(!isRegistering); setError(null); setInfo(null); }}
+              className="text-gray-400 dark:text-zinc-500 font-black hover:text-jec-yellow transition-colors text-[10px] uppercase tracking-widest"
+            >
+              {isRegistering ? '既にアカウントをお持ちですか？ ログイン' : "アカウントをお持ちでないですか？ 新規登録"}
+            </button>
+            {!isRegistering && (
+              <button
+                onClick={() => { setIsResettingPassword(true); setError(null); setInfo(null); }}
+                className="text-gray-400 dark:text-zinc-500 font-black hover:text-jec-orange transition-colors text-[10px] uppercase tracking-widest"
+              >
+                パスワードをお忘れですか？
+              </button>
             )}
-          </button>
-        </form>
-
-        <div className="mt-8 text-center">
-          <button 
-            onClick={() => { setIsRegistering(!isRegistering); setError(null); }}
-            className="text-gray-400 dark:text-zinc-500 font-black hover:text-jec-yellow transition-colors text-[10px] uppercase tracking-widest"
-          >
-            {isRegistering ? '既にアカウントをお持ちですか？ ログイン' : "アカウントをお持ちでないですか？ 新規登録"}
-          </button>
-        </div>
+          </div>
+        )}
       </div>
       
       <div className="fixed bottom-10 flex items-center gap-6 opacity-30">
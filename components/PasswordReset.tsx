@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { DataProvider } from '../services/dataProvider';
+import { describeApiError } from '../services/apiContract';
+import { checkPasswordStrength, createCredential } from '../services/password';
+import PasswordRules from './PasswordRules';
+
+interface PasswordResetProps {
+  provider: DataProvider;
+  initialUsername: string;
+  onError: (message: string | null) => void;
+  onCancel: () => void;
+  onComplete: () => void;
+}
+
+const inputClass = "w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold";
+
+const PasswordReset: React.FC<PasswordResetProps> = ({ provider, initialUsername, onError, onCancel, onComplete }) => {
+  const [step, setStep] = useState<'request' | 'confirm'>('request');
+  const [username, setUsername] = useState(initialUsername);
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const passwordRules = useMemo(() => checkPasswordStrength(newPassword, username), [newPassword, username]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    setIsLoading(true);
+    onError(null);
+    const result = await provider.requestPasswordReset(username.trim());
+    setIsLoading(false);
+    if (result.ok) setStep('confirm');
+    else onError(describeApiError(result.error, 'reset'));
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !newPassword) return;
+    if (!passwordRules.every(rule => rule.passed)) {
+      onError("パスワードが条件を満たしていません。");
+      return;
+    }
+    setIsLoading(true);
+    onError(null);
+    const result = await provider.resetPassword(username.trim(), code.trim(), await createCredential(newPassword));
+    setIsLoading(false);
+    if (result.ok) onComplete();
+    else onError(describeApiError(result.error, 'reset'));
+  };
+
+  return (
+    <div className="space-y-5">
+      {step === 'request' ? (
+        <form onSubmit={handleRequest} className="space-y-5">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className={inputClass}
+            placeholder="ユーザーID"
+            required
+            autoComplete="username"
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-black dark:bg-jec-orange text-white dark:text-black font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3 text-lg uppercase tracking-tighter"
+          >
+            {isLoading ? <i className="fas fa-spinner fa-spin"></i> : '確認コードを送信'}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-5">
+          <p className="text-xs font-bold text-gray-500 dark:text-zinc-400 leading-relaxed">
+            登録済みのメールアドレスに6桁の確認コードを送信しました（15分間有効）。
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={`${inputClass} tracking-[0.5em] text-center`}
+            placeholder="確認コード"
+            maxLength={6}
+            required
+            autoComplete="one-time-code"
+          />
+          <div>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClass}
+              placeholder="新しいパスワード"
+              required
+              autoComplete="new-password"
+            />
+            {newPassword && <PasswordRules rules={passwordRules} />}
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-black dark:bg-jec-orange text-white dark:text-black font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3 text-lg uppercase tracking-tighter"
+          >
+            {isLoading ? <i className="fas fa-spinner fa-spin"></i> : 'パスワードを再設定'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setStep('request')}
+            className="w-full text-gray-400 dark:text-zinc-500 font-black hover:text-jec-yellow transition-colors text-[10px] uppercase tracking-widest"
+          >
+            コードを再送信
+          </button>
+        </form>
+      )}
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-gray-400 dark:text-zinc-500 font-black hover:text-jec-yellow transition-colors text-[10px] uppercase tracking-widest"
+      >
+        ログイン画面に戻る
+      </button>
+    </div>
+  );
+};
+
+export default PasswordReset;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { PasswordRule } from '../services/password';
+
+interface PasswordRulesProps {
+  rules: PasswordRule[];
+}
+
+const PasswordRules: React.FC<PasswordRulesProps> = ({ rules }) => (
+  <ul className="mt-3 px-2 grid grid-cols-2 gap-x-4 gap-y-1">
+    {rules.map(rule => (
+      <li key={rule.id} className={`flex items-center gap-2 text-[10px] font-black ${rule.passed ? 'text-jec-green' : 'text-gray-400 dark:text-zinc-500'}`}>
+        <i className={`fas ${rule.passed ? 'fa-check-circle' : 'fa-circle'} text-[8px]`}></i>
+        {rule.label}
+      </li>
+    ))}
+  </ul>
+);
+
+export default PasswordRules;
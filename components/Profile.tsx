@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { User } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import { describeApiError } from '../services/apiContract';
+import { checkPasswordStrength, createCredential, hashForLogin } from '../services/password';
+import { RESUME_EXPIRY_OPTIONS, loadResumeExpiryHours, storeResumeExpiryHours } from '../services/sessionResume';
+import PasswordRules from './PasswordRules';
+import VoiceSettings from './VoiceSettings';
+
+interface ProfileProps {
+  provider: DataProvider;
+  user: User;
+  onUpdated: (user: User) => void;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+type Feedback = { section: 'profile' | 'password' | 'delete'; type: 'success' | 'error'; message: string } | null;
+
+const inputClass = "w-full px-6 py-4 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold";
+const sectionClass = "bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 shadow-sm space-y-5";
+const headingClass = "text-[10px] font-black uppercase tracking-[0.3em] flex items-center gap-2";
+
+const Profile: React.FC<ProfileProps> = ({ provider, user, onUpdated, onDeleted, onClose }) => {
+  const [studentName, setStudentName] = useState(user.studentName || '');
+  const [email, setEmail] = useState(user.email || '');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [deleteConfirm, setDeleteConfirm] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  const [busySection, setBusySection] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback>(null);
+  const [resumeHours, setResumeHours] = useState(loadResumeExpiryHours);
+
+  const passwordRules = useMemo(() => checkPasswordStrength(newPassword, user.username), [newPassword, user.username]);
+
+  const currentHash = async (password: string): Promise<string | null> => {
+    const params = await provider.getPasswordParams(user.username);
+    return params.ok ? hashForLogin(password, params.data) : null;
+  };
+
+  const handleProfileSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentName.trim() || !email.trim()) return;
+    setBusySection('profile');
+    const result = await provider.updateProfile(user.username, { studentName: studentName.trim(), email: email.trim() });
+    setBusySection(null);
+    if (result.ok) {
+      onUpdated({ ...user, studentName: studentName.trim(), email: email.trim() });
+      setFeedback({ section: 'profile', type: 'success', message: 'プロフィールを更新しました。' });
+    } else {
+      setFeedback({ section: 'profile', type: 'error', message: describeApiError(result.error) });
+    }
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordRules.every(rule => rule.passed)) {
+      setFeedback({ section: 'password', type: 'error', message: 'パスワードが条件を満たしていません。' });
+      return;
+    }
+    setBusySection('password');
+    const hash = await currentHash(currentPassword);
+    const result = hash
+      ? await provider.changePassword(user.username, hash, await createCredential(newPassword))
+      : null;
+    setBusySection(null);
+    if (result?.ok) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setFeedback({ section: 'password', type: 'success', message: 'パスワードを変更しました。' });
+    } else {
+      setFeedback({
+        section: 'password',
+        type: 'error',
+        message: result ? describeApiError(result.error, 'account') : '接続エラーが発生しました。'
+      });
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (deleteConfirm !== user.username) return;
+    setBusySection('delete');
+    const hash = await currentHash(deletePassword);
+    const result = hash ? await provider.deleteAccount(user.username, hash) : null;
+    setBusySection(null);
+    if (result?.ok) {
+      onDeleted();
+    } else {
+      setFeedback({
+        section: 'delete',
+        type: 'error',
+        message: result ? describeApiError(result.error, 'account') : '接続エラーが発生しました。'
+      });
+    }
+  };
+
+  const renderFeedback = (section: NonNullable<Feedback>['section']) => feedback?.section === section && (
+    <div className={`p-4 text-xs font-black rounded-2xl flex items-center gap-3 border ${feedback.type === 'success' ? 'bg-jec-green/10 border-jec-green/20 text-jec-green' : 'bg-red-500/10 border-red-500/20 text-red-500'}`}>
+      <i className={`fas ${feedback.type === 'success' ? 'fa-check-circle' : 'fa-bolt'}`}></i>
+      {feedback.message}
+    </div>
+  );
+
+  const submitClass = "w-full bg-black dark:bg-jec-yellow text-white dark:text-black font-black py-4 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50 uppercase tracking-tighter";
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase italic">
+            My <span className="text-jec-yellow">Account</span>
+          </h3>
+          <p className="text-xs font-bold text-gray-400 dark:text-zinc-500 mt-2 uppercase tracking-widest">@{user.username}</p>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 flex items-center justify-center bg-gray-100 dark:bg-zinc-900 rounded-2xl text-gray-500 dark:text-zinc-500 hover:text-jec-orange transition-colors border border-transparent dark:border-white/5" title="閉じる">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <form onSubmit={handleProfileSave} className={sectionClass}>
+        <h4 className={`${headingClass} text-jec-green`}><i className="fas fa-id-card"></i>プロフィール</h4>
+        {renderFeedback('profile')}
+        <input type="text" value={studentName} onChange={(e) => setStudentName(e.target.value)} className={inputClass} placeholder="氏名（ニックネーム可）" required />
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} placeholder="メールアドレス" required />
+        <button type="submit" disabled={busySection !== null} className={submitClass}>
+          {busySection === 'profile' ? <i className="fas fa-spinner fa-spin"></i> : '保存'}
+        </button>
+      </form>
+
+      <form onSubmit={handlePasswordChange} className={sectionClass}>
+        <h4 className={`${headingClass} text-jec-yellow`}><i className="fas fa-key"></i>パスワード変更</h4>
+        {renderFeedback('password')}
+        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="現在のパスワード" required autoComplete="current-password" />
+        <div>
+          <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} placeholder="新しいパスワード" required autoComplete="new-password" />
+          {newPassword && <PasswordRules rules={passwordRules} />}
+        </div>
+        <button type="submit" disabled={busySection !== null} className={submitClass}>
+          {busySection === 'password' ? <i className="fas fa-spinner fa-spin"></i> : '変更'}
+        </button>
+      </form>
+
+      <VoiceSettings username={user.username} sectionClass={sectionClass} headingClass={headingClass} />
+
+      <div className={sectionClass}>
+        <h4 className={`${headingClass} text-jec-orange`}><i className="fas fa-sliders-h"></i>学習設定</h4>
+        <label className="flex items-center justify-between gap-4 text-xs font-bold text-gray-500 dark:text-zinc-400">
+          中断した学習を再開できる期間
+          <select
+            value={resumeHours}
+            onChange={(e) => { const hours = Number(e.target.value); setResumeHours(hours); storeResumeExpiryHours(hours); }}
+            className="px-4 py-3 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold"
+          >
+            {RESUME_EXPIRY_OPTIONS.map(hours => <option key={hours} value={hours}>{hours}時間</option>)}
+          </select>
+        </label>
+      </div>
+
+      <form onSubmit={handleDelete} className={`${sectionClass} !border-red-500/20`}>
+        <h4 className={`${headingClass} text-red-500`}><i className="fas fa-exclamation-triangle"></i>アカウント削除</h4>
+        <p className="text-xs font-bold text-gray-500 dark:text-zinc-400 leading-relaxed">
+          アカウントと全ての学習記録が削除されます。この操作は取り消せません。確認のためユーザーID「{user.username}」とパスワードを入力してください。
+        </p>
+        {renderFeedback('delete')}
+        <input type="text" value={deleteConfirm} onChange={(e) => setDeleteConfirm(e.target.value)} className={inputClass} placeholder="ユーザーID" required />
+        <input type="password" value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} className={inputClass} placeholder="パスワード" required autoComplete="current-password" />
+        <button
+          type="submit"
+          disabled={busySection !== null || deleteConfirm !== user.username}
+          className="w-full bg-red-500 text-white font-black py-4 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-30 uppercase tracking-tighter"
+        >
+          {busySection === 'delete' ? <i className="fas fa-spinner fa-spin"></i> : 'アカウントを削除'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { CardDirection, Flashcard } from '../types';
+import { playTextToSpeech } from '../services/audio';
+import { buildChoices } from '../services/distractors';
+import { answerText, promptText } from '../services/studyDirection';
+import { FOCUS_RING, isTextEntry, nextAnnouncement, optionIndex } from '../services/keyboard';
+
+interface QuizPracticeProps {
+  card: Flashcard;
+  pool: Flashcard[];
+  direction: CardDirection;
+  shortcutsEnabled?: boolean;
+  onAnswered: (chosen: Flashcard) => void;
+  onNext: () => void;
+}
+
+const CORRECT_ADVANCE_MS = 900;
+
+const QuizPractice: React.FC<QuizPracticeProps> = ({ card, pool, direction, shortcutsEnabled = true, onAnswered, onNext }) => {
+  const [choices, setChoices] = useState<Flashcard[]>([]);
+  const [chosen, setChosen] = useState<Flashcard | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  useEffect(() => {
+    setChoices(buildChoices(card, pool, direction));
+    setChosen(null);
+    setAnnouncement(prev => nextAnnouncement(prev, `問題: ${promptText(card, direction)}`));
+    if (direction === 'enToJa') playTextToSpeech(card.front);
+  }, [card.id, direction]);
+
+  const choose = (choice: Flashcard) => {
+    if (chosen) return;
+    setChosen(choice);
+    setAnnouncement(prev => nextAnnouncement(prev, choice.id === card.id
+      ? '正解'
+      : `不正解。正解は ${answerText(card, direction)}。「${answerText(choice, direction)}」は ${promptText(choice, direction)} です`));
+    onAnswered(choice);
+    if (direction === 'jaToEn') playTextToSpeech(card.front);
+    if (choice.id === card.id) setTimeout(onNext, CORRECT_ADVANCE_MS);
+  };
+
+  useEffect(() => {
+    if (!shortcutsEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTextEntry(e.target)) return;
+      const index = optionIndex(e.key);
+      if (index !== null && choices[index]) choose(choices[index]);
+      // A focused 次へ button handles Enter itself
+      else if (e.key === 'Enter' && chosen && chosen.id !== card.id && !(e.target instanceof HTMLButtonElement)) onNext();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutsEnabled, choices, chosen, card.id]);
+
+  const isCorrect = chosen?.id === card.id;
+  const tone = !chosen ? 'border-jec-yellow' : isCorrect ? 'border-jec-green' : 'border-jec-orange';
+
+  return (
+    <div className="max-w-xl mx-auto space-y-8 py-6">
+      <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+      <div className={`bg-zinc-900 rounded-[3rem] p-10 text-center border-4 ${tone} transition-colors shadow-2xl relative`}>
+        <span className="block text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic mb-6">
+          {direction === 'enToJa' ? '正しい意味を選択' : '正しい英単語を選択'}
+        </span>
+        <h3 className="text-4xl md:text-5xl font-black text-white tracking-tighter italic">{promptText(card, direction)}</h3>
+        {direction === 'enToJa' && (
+          <button onClick={() => playTextToSpeech(card.front)} aria-label="発音を再生" className="absolute bottom-6 right-6 w-12 h-12 bg-white/5 rounded-full flex items-center justify-center text-jec-yellow hover:scale-110 transition-all">
+            <i className="fas fa-volume-up"></i>
+          </button>
+        )}
+        {chosen && card.notes && (
+          <p className="mt-4 text-jec-yellow/70 text-xs font-bold italic"><i className="fas fa-info-circle mr-2 opacity-50"></i>{card.notes}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {choices.map((choice, i) => {
+          const state = !chosen ? 'idle' : choice.id === card.id ? 'answer' : choice.id === chosen.id ? 'picked' : 'other';
+          return (
+            <button
+              key={choice.id}
+              disabled={!!chosen}
+              onClick={() => choose(choice)}
+              aria-keyshortcuts={String(i + 1)}
+              className={`relative p-6 rounded-3xl font-black text-lg transition-all border-2 shadow-lg ${FOCUS_RING} ${
+                state === 'answer' ? 'bg-jec-green text-black border-jec-green'
+                : state === 'picked' ? 'bg-jec-orange/10 text-jec-orange border-jec-orange'
+                : state === 'other' ? 'bg-zinc-800 text-zinc-600 opacity-50 border-transparent'
+                : 'bg-zinc-900 text-white border-transparent hover:border-jec-yellow'
+              }`}
+            >
+              <span aria-hidden="true" className="hidden md:block absolute top-3 left-4 text-[10px] opacity-40">{i + 1}</span>
+              {answerText(choice, direction)}
+            </button>
+          );
+        })}
+      </div>
+
+      {chosen && !isCorrect && (
+        <div className="space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
+          <p className="p-5 rounded-2xl text-center bg-jec-orange/10 text-jec-orange text-sm font-black">
+            「{answerText(chosen, direction)}」は <span className="text-white">{promptText(chosen, direction)}</span> です
+          </p>
+          <button onClick={onNext} autoFocus className={`w-full ${FOCUS_RING} py-5 rounded-[2rem] font-black uppercase tracking-widest bg-jec-green text-black shadow-xl hover:scale-105 transition-all`}>
+            次へ <i className="fas fa-arrow-right ml-2"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPractice;
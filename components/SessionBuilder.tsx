@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { CardReviewState, Deck, ReviewEvent, SessionMode } from '../types';
+import { SESSION_MODE_ICONS, SESSION_MODE_LABELS } from '../services/sessionModes';
+import { FOCUS_RING } from '../services/keyboard';
+import {
+  CUSTOM_DECK_ID, CUSTOM_DECK_NAME, CUSTOM_LIMIT_OPTIONS, CustomSessionFilter, MASTERY_LEVEL_LABELS, MasteryLevel, NOT_SEEN_OPTIONS,
+  buildCustomDeck, collectTags, createCustomFilter, filterCustomCards, modeUnavailableReason
+} from '../services/customSession';
+import { SessionSnapshot } from '../services/sessionResume';
+
+interface SessionBuilderProps {
+  username: string;
+  decks: Deck[];
+  reviewStates: Record<string, CardReviewState>;
+  events: ReviewEvent[];
+  snapshot?: SessionSnapshot;
+  onStart: (deck: Deck, mode: SessionMode) => void;
+  onResume: (deck: Deck, snapshot: SessionSnapshot) => void;
+  onClose: () => void;
+}
+
+const LEVELS: MasteryLevel[] = [0, 1, 2, 3];
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-zinc-500 mb-3";
+const selectClass = "px-4 py-2 bg-gray-100 dark:bg-black border-none rounded-xl outline-none text-gray-900 dark:text-white font-bold text-sm";
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-xl text-xs font-black transition-colors ${FOCUS_RING} ${active ? 'bg-jec-yellow text-black' : 'bg-gray-100 dark:bg-black text-gray-500 dark:text-zinc-500 hover:text-jec-yellow'}`;
+
+const toggle = <T,>(list: T[], item: T): T[] => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+/**
+ * Picks cards across decks by tag, mastery and recent results, then starts any
+ * study mode on them as one transient deck.
+ */
+const SessionBuilder: React.FC<SessionBuilderProps> = ({ username, decks, reviewStates, events, snapshot, onStart, onResume, onClose }) => {
+  const [filter, setFilter] = useState<CustomSessionFilter>(() => createCustomFilter(decks));
+  const update = (changes: Partial<CustomSessionFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const chosenDecks = decks.filter(d => filter.deckNames.includes(d.name));
+  const tags = useMemo(() => collectTags(chosenDecks), [decks, filter.deckNames]);
+  const matching = useMemo(
+    () => filterCustomCards(username, decks, filter, events, reviewStates),
+    [username, decks, filter, events, reviewStates]
+  );
+  const sessionSize = Math.min(matching.length, filter.limit);
+
+  const start = (mode: SessionMode) => {
+    // Deal the cards first so every mode is checked against the set it will get
+    const deck = buildCustomDeck(matching, filter.limit);
+    if (modeUnavailableReason(mode, deck.cards)) return;
+    onStart(deck, mode);
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 shadow-xl space-y-8 animate-in fade-in slide-in-from-top-4 duration-300">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-2xl font-black text-gray-900 dark:text-white tracking-tighter">{CUSTOM_DECK_NAME}</h4>
+          <p className="text-[10px] font-black text-gray-400 dark:text-zinc-500 uppercase tracking-widest mt-1">単語帳をまたいで条件に合うカードだけを学習</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {snapshot && (
+            <button
+              onClick={() => onResume({ id: CUSTOM_DECK_ID, name: CUSTOM_DECK_NAME, cards: snapshot.cards }, snapshot)}
+              className={`inline-flex items-center gap-2 px-3 py-1 bg-jec-yellow/10 text-jec-yellow rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-jec-yellow hover:text-black transition-colors ${FOCUS_RING}`}
+            >
+              <i className="fas fa-play-circle"></i>
+              続きから • {SESSION_MODE_LABELS[snapshot.mode]}
+            </button>
+          )}
+          <button onClick={onClose} aria-label="閉じる" className={`w-8 h-8 rounded-xl text-gray-400 hover:text-jec-orange ${FOCUS_RING}`}>
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>単語帳</span>
+          <button
+            onClick={() => update({ deckNames: filter.deckNames.length === decks.length ? [] : decks.map(d => d.name) })}
+            className="mb-3 text-[10px] font-black text-gray-400 hover:text-jec-yellow uppercase tracking-widest"
+          >
+            {filter.deckNames.length === decks.length ? 'すべて外す' : 'すべて選択'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {decks.map(deck => (
+            <button key={deck.id} onClick={() => update({ deckNames: toggle(filter.deckNames, deck.name) })} aria-pressed={filter.deckNames.includes(deck.name)} className={chipClass(filter.deckNames.includes(deck.name))}>
+              {deck.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <span className={labelClass}>タグ（いずれかを含む）</span>
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <button key={tag} onClick={() => update({ tags: toggle(filter.tags, tag) })} aria-pressed={filter.tags.includes(tag)} className={chipClass(filter.tags.includes(tag))}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <span className={labelClass}>習得度</span>
+          <div className="flex items-center gap-2 text-xs font-bold text-gray-400">
+            <select
+              value={filter.minLevel}
+              onChange={(e) => { const level = Number(e.target.value) as MasteryLevel; update({ minLevel: level, maxLevel: Math.max(level, filter.maxLevel) as MasteryLevel }); }}
+              aria-label="習得度（下限）"
+              className={selectClass}
+            >
+              {LEVELS.map(level => <option key={level} value={level}>{MASTERY_LEVEL_LABELS[level]}</option>)}
+            </select>
+            〜
+            <select
+              value={filter.maxLevel}
+              onChange={(e) => { const level = Number(e.target.value) as MasteryLevel; update({ maxLevel: level, minLevel: Math.min(level, filter.minLevel) as MasteryLevel }); }}
+              aria-label="習得度（上限）"
+              className={selectClass}
+            >
+              {LEVELS.map(level => <option key={level} value={level}>{MASTERY_LEVEL_LABELS[level]}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="block">
+          <span className={labelClass}>最後に学習してから</span>
+          <select value={filter.notSeenDays ?? ''} onChange={(e) => update({ notSeenDays: e.target.value ? Number(e.target.value) : null })} className={selectClass}>
+            <option value="">指定なし</option>
+            {NOT_SEEN_OPTIONS.map(days => <option key={days} value={days}>{days}日以上</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>枚数の上限</span>
+          <select value={filter.limit} onChange={(e) => update({ limit: Number(e.target.value) })} className={selectClass}>
+            {CUSTOM_LIMIT_OPTIONS.map(limit => <option key={limit} value={limit}>{limit}枚</option>)}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs font-bold text-gray-500 dark:text-zinc-400 cursor-pointer">
+        <input type="checkbox" checked={filter.missedLastTime} onChange={(e) => update({ missedLastTime: e.target.checked })} className="w-4 h-4 accent-jec-yellow" />
+        前回まちがえた単語だけ
+      </label>
+
+      <div className="pt-6 border-t border-gray-100 dark:border-white/5 space-y-4">
+        <p role="status" className="text-xs font-black text-gray-500 dark:text-zinc-400">
+          条件に合うカード <span className="text-jec-yellow">{matching.length}枚</span>
+          {matching.length > filter.limit && ` • ランダムに${sessionSize}枚で学習`}
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          {(Object.keys(SESSION_MODE_LABELS) as SessionMode[]).map(mode => {
+            const reason = modeUnavailableReason(mode, matching.slice(0, filter.limit));
+            return (
+              <button
+                key={mode}
+                onClick={() => start(mode)}
+                disabled={!!reason}
+                title={reason ?? undefined}
+                className={`flex flex-col items-center gap-2 p-4 rounded-2xl bg-gray-50 dark:bg-black border border-transparent hover:border-jec-yellow transition-all disabled:opacity-30 disabled:hover:border-transparent ${FOCUS_RING}`}
+              >
+                <i className={`fas ${SESSION_MODE_ICONS[mode]} text-jec-yellow text-xl`}></i>
+                <span className="text-[10px] font-black text-gray-700 dark:text-zinc-300">{SESSION_MODE_LABELS[mode]}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionBuilder;
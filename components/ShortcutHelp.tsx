@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { SessionMode } from '../types';
+import { FOCUS_RING, GENERAL_SHORTCUTS, SHORTCUT_HINTS, ShortcutHint } from '../services/keyboard';
+import { SESSION_MODE_LABELS } from '../services/sessionModes';
+
+interface ShortcutHelpProps {
+  mode: SessionMode;
+  onClose: () => void;
+}
+
+const ShortcutList: React.FC<{ hints: ShortcutHint[] }> = ({ hints }) => (
+  <dl className="space-y-3">
+    {hints.map(hint => (
+      <div key={hint.label} className="flex items-center justify-between gap-4">
+        <dt className="flex gap-1">
+          {hint.keys.map(key => (
+            <kbd key={key} className="min-w-[2rem] px-2 py-1 bg-black border border-white/10 rounded-lg text-xs font-black text-jec-yellow text-center">{key}</kbd>
+          ))}
+        </dt>
+        <dd className="text-xs font-bold text-zinc-300">{hint.label}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ mode, onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const returnFocus = useRef<Element | null>(null);
+
+  useEffect(() => {
+    returnFocus.current = document.activeElement;
+    closeRef.current?.focus();
+    return () => { if (returnFocus.current instanceof HTMLElement) returnFocus.current.focus(); };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+        className="w-full max-w-sm bg-zinc-900 border border-white/10 rounded-[2rem] p-8 space-y-6 shadow-2xl animate-in fade-in zoom-in duration-200"
+      >
+        <div className="flex items-center justify-between">
+          <h3 id="shortcut-help-title" className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-yellow">
+            <i className="fas fa-keyboard mr-2"></i>{SESSION_MODE_LABELS[mode]}のショートカット
+          </h3>
+          <button ref={closeRef} onClick={onClose} aria-label="閉じる" className={`w-8 h-8 rounded-xl text-zinc-500 hover:text-jec-orange ${FOCUS_RING}`}>
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <ShortcutList hints={SHORTCUT_HINTS[mode]} />
+        <div className="pt-4 border-t border-white/5">
+          <ShortcutList hints={GENERAL_SHORTCUTS} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { getTtsSettings, playTextToSpeech } from '../services/audio';
+import { TTS_ACCENTS } from '../services/ttsSettings';
+import { FOCUS_RING, isTextEntry, nextAnnouncement } from '../services/keyboard';
+import { PronunciationCheck, checkPronunciation } from '../services/pronunciation';
+import { RecognitionError, RecognitionFailure, getSpeechRecognizer } from '../services/speechRecognition';
+
+interface SpeakingPracticeProps {
+  card: Flashcard;
+  maxMastery: number;
+  shortcutsEnabled?: boolean;
+  onAnswered: (masteryScore: number, grade: ReviewGrade) => void;
+  onNext: () => void;
+}
+
+const MAX_ATTEMPTS = 3;
+
+const FAILURE_MESSAGES: Record<RecognitionFailure, string> = {
+  unsupported: 'このブラウザは音声認識に対応していません',
+  denied: 'マイクが使えません。ブラウザの設定でマイクを許可してください',
+  noSpeech: '声が聞き取れませんでした。もう一度話してください',
+  network: '音声認識サービスに接続できませんでした',
+  aborted: '',
+  failed: '音声認識に失敗しました。もう一度お試しください'
+};
+
+/**
+ * Each missed attempt and the spelling hint cost one mastery point; a near miss costs one more.
+ */
+function scoreAttempt(check: PronunciationCheck, misses: number, hinted: boolean, maxMastery: number): number {
+  const penalty = misses + (hinted ? 1 : 0) + (check.verdict === 'close' ? 1 : 0);
+  return Math.max(1, maxMastery - penalty);
+}
+
+const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ card, maxMastery, shortcutsEnabled = true, onAnswered, onNext }) => {
+  const [isListening, setIsListening] = useState(false);
+  const [check, setCheck] = useState<PronunciationCheck | null>(null);
+  const [misses, setMisses] = useState(0);
+  const [hinted, setHinted] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState('');
+  const [announcement, setAnnouncement] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const announce = (message: string) => setAnnouncement(prev => nextAnnouncement(prev, message));
+
+  useEffect(() => {
+    setCheck(null);
+    setMisses(0);
+    setHinted(false);
+    setIsDone(false);
+    setError('');
+    announce(`問題: ${card.back}`);
+    return () => abortRef.current?.abort();
+  }, [card.id]);
+
+  const finish = (masteryScore: number, grade: ReviewGrade) => {
+    setIsDone(true);
+    onAnswered(masteryScore, grade);
+    playTextToSpeech(card.front);
+  };
+
+  const listen = async () => {
+    if (isListening || isDone) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsListening(true);
+    setError('');
+    try {
+      const transcripts = await getSpeechRecognizer().listen(TTS_ACCENTS[getTtsSettings().accent].lang, controller.signal);
+      const result = checkPronunciation(transcripts, card.front);
+      setCheck(result);
+      if (result.verdict !== 'wrong') {
+        announce(result.verdict === 'correct' ? '正解' : `惜しい。正しくは ${card.front}`);
+        finish(scoreAttempt(result, misses, hinted, maxMastery), misses === 0 && !hinted ? 'good' : 'again');
+      } else if (misses + 1 >= MAX_ATTEMPTS) {
+        setMisses(misses + 1);
+        announce(`不正解。正しくは ${card.front}`);
+        finish(0, 'again');
+      } else {
+        setMisses(misses + 1);
+        announce(`「${result.heard}」と聞こえました。もう一度話してください`);
+      }
+    } catch (e) {
+      const reason = e instanceof RecognitionError ? e.reason : 'failed';
+      if (reason !== 'aborted') {
+        console.warn("[Speaking] Recognition failed", e);
+        setError(FAILURE_MESSAGES[reason]);
+        announce(FAILURE_MESSAGES[reason]);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsListening(false);
+    }
+  };
+
+  const giveUp = () => {
+    abortRef.current?.abort();
+    announce(`正しくは ${card.front}`);
+    finish(0, 'again');
+  };
+
+  useEffect(() => {
+    if (!shortcutsEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTextEntry(e.target) || e.target instanceof HTMLButtonElement) return;
+      if (e.key === ' ' && !isDone) {
+        e.preventDefault();
+        listen();
+      } else if (e.key === 'Enter' && isDone) onNext();
+      else if (e.key.toLowerCase() === 's' && isDone) playTextToSpeech(card.front);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutsEnabled, isDone, isListening, misses, hinted, card.id]);
+
+  const tone = !check ? 'border-jec-yellow' : check.verdict === 'wrong' ? 'border-jec-orange' : 'border-jec-green';
+  const showWord = hinted || isDone;
+
+  return (
+    <div className="max-w-xl mx-auto space-y-8 py-6">
+      <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+      <div className={`bg-zinc-900 rounded-[3rem] p-10 text-center border-4 ${tone} transition-colors shadow-2xl relative`}>
+        <span className="block text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic mb-6">英語で発音</span>
+        <h3 className="text-4xl md:text-5xl font-black text-white tracking-tighter italic">{card.back}</h3>
+        {card.notes && (
+          <p className="mt-4 text-jec-yellow/70 text-xs font-bold italic"><i className="fas fa-info-circle mr-2 opacity-50"></i>{card.notes}</p>
+        )}
+        {showWord && (
+          <p className="mt-6 text-3xl font-black tracking-tight" aria-label={card.front}>
+            {check && check.verdict !== 'correct'
+              ? check.segments.map((segment, i) => (
+                  <span key={i} className={segment.matched ? 'text-jec-green' : 'text-jec-orange underline decoration-wavy underline-offset-8'}>{segment.text}</span>
+                ))
+              : <span className="text-jec-yellow">{card.front}</span>}
+          </p>
+        )}
+        {isDone && (
+          <button onClick={() => playTextToSpeech(card.front)} aria-label="お手本を再生" aria-keyshortcuts="S" className={`absolute bottom-6 right-6 w-12 h-12 bg-white/5 rounded-full flex items-center justify-center text-jec-yellow hover:scale-110 transition-all ${FOCUS_RING}`}>
+            <i className="fas fa-volume-up"></i>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-4">
+        <button
+          type="button"
+          onClick={listen}
+          disabled={isListening || isDone}
+          aria-label={isListening ? '聞き取り中' : '話す'}
+          aria-keyshortcuts="Space"
+          className={`w-28 h-28 rounded-full flex items-center justify-center shadow-2xl transition-all border-4 ${FOCUS_RING} disabled:cursor-default ${isListening ? 'bg-jec-orange border-jec-orange animate-pulse' : isDone ? 'bg-zinc-900 border-white/5 opacity-30' : 'bg-zinc-900 border-jec-yellow hover:scale-105'}`}
+        >
+          <i className={`fas fa-microphone text-4xl ${isListening ? 'text-black' : 'text-jec-yellow'}`}></i>
+        </button>
+        <p className="text-zinc-500 font-black uppercase tracking-widest text-[10px]">
+          {isListening ? '聞き取り中…' : isDone ? '' : misses > 0 ? `もう一度 (${MAX_ATTEMPTS - misses}回まで)` : 'マイクを押して英単語を話してください'}
+        </p>
+      </div>
+
+      {error && (
+        <p role="alert" className="p-4 rounded-2xl bg-jec-orange/10 text-jec-orange text-xs font-bold text-center">{error}</p>
+      )}
+
+      {check && (
+        <div role="status" className={`p-5 rounded-2xl text-center animate-in fade-in slide-in-from-top-2 duration-300 ${check.verdict === 'wrong' ? 'bg-jec-orange/10 text-jec-orange' : 'bg-jec-green/10 text-jec-green'}`}>
+          <p className="text-sm font-black uppercase tracking-widest">
+            {check.verdict === 'correct' ? '正解！' : check.verdict === 'close' ? '惜しい！' : '違う単語に聞こえました'}
+            <span className="ml-2 opacity-60">{check.score}%</span>
+          </p>
+          <p className="mt-2 text-xs font-bold text-zinc-400">聞き取った音声: <span className="text-white">{check.heard || '—'}</span></p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        {isDone ? (
+          <button
+            type="button"
+            onClick={onNext}
+            autoFocus
+            className={`col-span-2 py-5 rounded-[2rem] font-black uppercase tracking-widest bg-jec-green text-black ${FOCUS_RING} shadow-xl hover:scale-105 transition-all`}
+          >
+            次へ <i className="fas fa-arrow-right ml-2"></i>
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => setHinted(true)}
+              disabled={hinted}
+              className={`py-5 rounded-[2rem] font-black uppercase tracking-widest bg-zinc-900 text-jec-yellow ${FOCUS_RING} border border-white/5 hover:bg-jec-yellow hover:text-black transition-all disabled:opacity-30 disabled:hover:bg-zinc-900 disabled:hover:text-jec-yellow`}
+            >
+              <i className="fas fa-lightbulb mr-2"></i> スペルを見る
+            </button>
+            <button
+              type="button"
+              onClick={giveUp}
+              className={`py-5 rounded-[2rem] font-black uppercase tracking-widest bg-zinc-900 text-zinc-400 ${FOCUS_RING} border border-white/5 hover:text-jec-orange transition-all`}
+            >
+              わからない
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingPractice;
@@ -1,13 +1,30 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Deck, Flashcard, SessionMode, User, StudentProgress } from '../types';
+import { Deck, Flashcard, SessionMode, User, StudentProgress, CardReviewState, ReviewGrade, SessionStats, StudyDirection, CardDirection, ConfusionRecord, ReviewEvent, ReviewEventResult } from '../types';
 import { playTextToSpeech } from '../services/audio';
+import { DirectionMap, buildDueQueue, cardOrigin, cardReviewKey, countDue, createReviewState, getDueTomorrow, scheduleReview } from '../services/srs';
+import { SIDE_LANGUAGE_LABELS, answerText, assignDirections, loadStudyDirection, promptText, storeStudyDirection } from '../services/studyDirection';
+import { STUDY_DIRECTION_LABELS } from '../services/sessionModes';
+import { buildChoices } from '../services/distractors';
+import { MemoryTile, SessionSnapshot, clearSessionSnapshot, storeSessionSnapshot } from '../services/sessionResume';
+import { FOCUS_RING, isButtonTarget, isTextEntry, nextAnnouncement, optionIndex } from '../services/keyboard';
+import { getSpeechRecognizer } from '../services/speechRecognition';
+import { DICTATION_PASS_ACCURACY, DictationCheck, dictationSentence } from '../services/dictation';
+import TypingPractice from './TypingPractice';
+import QuizPractice from './QuizPractice';
+import SpeakingPractice from './SpeakingPractice';
+import DictationPractice from './DictationPractice';
+import ShortcutHelp from './ShortcutHelp';
+import CardDetails, { WithReading } from './CardDetails';
 
 interface StudySessionProps {
   deck: Deck;
   user: User;
   allProgress: StudentProgress[];
-  onClose: (stats?: { progress: number, mastered: number, total: number, memoryTime?: number }) => void;
+  reviewStates: Record<string, CardReviewState>;
+  resume?: SessionSnapshot; // Picks up an interrupted session instead of showing the mode menu
+  startMode?: SessionMode; // Skips the mode menu, as for a custom set started from the session builder
+  onClose: (stats?: SessionStats) => void;
 }
 
 interface DragState {
@@ -22,6 +39,12 @@ const MEMORY_PAIR_COUNT = 6;
 const MEMORY_PERFECT_CLICKS = 12;
 const MAX_MASTERY = 5;
 
+// Matches the grid-cols-3 md:grid-cols-4 memory board
+const memoryColumns = () => window.matchMedia('(min-width: 768px)').matches ? 4 : 3;
+
+const gradeResult = (grade: ReviewGrade): ReviewEventResult =>
+  grade === 'again' ? 'wrong' : grade === 'easy' ? 'mastered' : 'correct';
+
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -29,7 +52,7 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
 };
 
-const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, onClose }) => {
+const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, reviewStates, resume, startMode, onClose }) => {
   const [mode, setMode] = useState<SessionMode | null>(null);
   const [cards, setCards] = useState<Flashcard[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -39,23 +62,38 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
   const [streak, setStreak] = useState(0);
   const [animationClass, setAnimationClass] = useState('');
   const [isResetting, setIsResetting] = useState(false);
+  const [sessionReviews, setSessionReviews] = useState<Record<string, CardReviewState>>({});
+  const [direction, setDirection] = useState<StudyDirection>(loadStudyDirection);
+  const [cardDirections, setCardDirections] = useState<DirectionMap>({});
+  const [sessionConfusions, setSessionConfusions] = useState<ConfusionRecord[]>([]);
+  const [sessionEvents, setSessionEvents] = useState<ReviewEvent[]>([]);
+  const shownAtRef = useRef(performance.now());
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
   
   const [drag, setDrag] = useState<DragState>({ x: 0, y: 0, isDragging: false });
   const pointerStartPos = useRef<{ x: number, y: number, time: number } | null>(null);
 
   // Memory Game State
-  const [memoryCards, setMemoryCards] = useState<{id: string, content: string, type: 'front'|'back', isFlipped: boolean, isMatched: boolean}[]>([]);
+  const [memoryCards, setMemoryCards] = useState<MemoryTile[]>([]);
   const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
   const [timer, setTimer] = useState(0);
   const [isTimerActive, setIsTimerActive] = useState(false);
   const [memoryClickCount, setMemoryClickCount] = useState(0);
   const timerRef = useRef<number | null>(null);
+  const pairStartRef = useRef(0);
+  const [memoryFocus, setMemoryFocus] = useState(0);
+  const memoryTileRefs = useRef<(HTMLButtonElement | null)[]>([]);
   
   // Listening Game State
-  const [listeningOptions, setListeningOptions] = useState<string[]>([]);
+  const [listeningOptions, setListeningOptions] = useState<Flashcard[]>([]);
   const [listeningFeedback, setListeningFeedback] = useState<'correct' | 'wrong' | null>(null);
 
   useEffect(() => {
+    if (resume) {
+      restoreSnapshot(resume);
+      return;
+    }
     // Initialize cards with 0 mastery
     const shuffled = [...deck.cards].sort(() => Math.random() - 0.5);
     setCards(shuffled.map(c => ({ ...c, masteryScore: 0 })));
@@ -63,7 +101,8 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
 
   useEffect(() => {
     if (isTimerActive) {
-      const start = performance.now();
+      // A resumed memory game continues from its saved time
+      const start = performance.now() - timer * 1000;
       timerRef.current = window.setInterval(() => {
         setTimer((performance.now() - start) / 1000);
       }, 50);
@@ -73,7 +112,86 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
   }, [isTimerActive]);
 
+  // Answer latency is measured from the moment a card is put in front of the student
+  useEffect(() => {
+    shownAtRef.current = performance.now();
+  }, [mode, currentIndex]);
+
   const currentCard = cards[currentIndex];
+  const directionOf = useCallback((card: Flashcard): CardDirection => cardDirections[card.id] ?? 'enToJa', [cardDirections]);
+  const currentDirection = currentCard ? directionOf(currentCard) : 'enToJa';
+
+  const announce = (message: string) => setAnnouncement(prev => nextAnnouncement(prev, message));
+
+  useEffect(() => {
+    if (mode === SessionMode.FLASHCARD && currentCard) announce(`表面: ${promptText(currentCard, currentDirection)}`);
+  }, [mode, currentCard?.id]);
+
+  const dueCounts = useMemo(
+    () => countDue(deck.name, deck.cards, reviewStates, assignDirections(deck.name, deck.cards, reviewStates, direction)),
+    [deck, reviewStates, direction]
+  );
+
+  const dictationCount = useMemo(() => deck.cards.filter(c => dictationSentence(c)).length, [deck]);
+
+  const changeDirection = (next: StudyDirection) => {
+    setDirection(next);
+    storeStudyDirection(next);
+  };
+
+  const startFlashcards = () => {
+    // Drill today's due and new cards; fall back to the whole deck when nothing is scheduled.
+    const directions = assignDirections(deck.name, deck.cards, reviewStates, direction);
+    const queue = buildDueQueue(deck.name, deck.cards, reviewStates, directions);
+    setCardDirections(directions);
+    const selected = queue.length > 0 ? queue : [...deck.cards].sort(() => Math.random() - 0.5);
+    setCards(selected.map(c => ({ ...c, masteryScore: 0 })));
+    setCurrentIndex(0);
+    setMode(SessionMode.FLASHCARD);
+  };
+
+  // A card is scheduled once per session, from its first grade; later repeats of it in
+  // the same session only move the session's mastery counter.
+  const recordReview = useCallback((card: Flashcard, grade: ReviewGrade) => {
+    const cardDirection = directionOf(card);
+    const key = cardReviewKey(deck.name, card, cardDirection);
+    const origin = cardOrigin(deck.name, card);
+    setSessionReviews(prev => {
+      if (prev[key]) return prev;
+      const base = reviewStates[key] || createReviewState(user.username, origin.deckName, origin.cardId, cardDirection);
+      return { ...prev, [key]: scheduleReview(base, grade) };
+    });
+  }, [deck.name, reviewStates, user.username, directionOf]);
+
+  const recordConfusion = useCallback((card: Flashcard, chosen: Flashcard, answerMode: SessionMode) => {
+    const origin = cardOrigin(deck.name, card);
+    const chosenOrigin = cardOrigin(deck.name, chosen);
+    // Mix-ups are reported per deck, so a pick from another deck of a generated deck is left out
+    if (chosenOrigin.deckName !== origin.deckName) return;
+    setSessionConfusions(prev => [...prev, {
+      username: user.username,
+      deckName: origin.deckName,
+      cardId: origin.cardId,
+      chosenCardId: chosenOrigin.cardId,
+      mode: answerMode,
+      direction: directionOf(card),
+      answeredAt: new Date().toISOString()
+    }]);
+  }, [deck.name, user.username, directionOf]);
+
+  const recordEvent = useCallback((card: Flashcard, result: ReviewEventResult, answerMode: SessionMode, shownAt: number = shownAtRef.current) => {
+    const origin = cardOrigin(deck.name, card);
+    setSessionEvents(prev => [...prev, {
+      username: user.username,
+      deckName: origin.deckName,
+      cardId: origin.cardId,
+      mode: answerMode,
+      direction: directionOf(card),
+      result,
+      latencyMs: Math.round(performance.now() - shownAt),
+      answeredAt: new Date().toISOString()
+    }]);
+  }, [deck.name, user.username, directionOf]);
 
   /**
    * SRS-Lite selection logic
@@ -104,6 +222,8 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
       } else {
         setCurrentIndex(finalNextIdx);
         setIsFlipped(false);
+        // A missed card can come back at the same index
+        shownAtRef.current = performance.now();
       }
       setAnimationClass('');
       setDrag({ x: 0, y: 0, isDragging: false });
@@ -119,6 +239,10 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     else setAnimationClass('anim-fly-right');
 
     const newMastery = isMastered ? MAX_MASTERY : Math.min(MAX_MASTERY, Math.max(0, currentCard.masteryScore + scoreChange));
+    const grade: ReviewGrade = isMastered ? 'easy' : scoreChange > 0 ? 'good' : 'again';
+    announce(isMastered ? '習得' : scoreChange > 0 ? '正解' : '苦手');
+    recordReview(currentCard, grade);
+    recordEvent(currentCard, gradeResult(grade), SessionMode.FLASHCARD);
     
     let updatedCards = [...cards];
     const isIncorrect = scoreChange < 0;
@@ -136,7 +260,7 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     setCards(updatedCards);
     setHistoryCount(h => h + 1);
     moveToNextAvailable(updatedCards, isIncorrect);
-  }, [cards, currentIndex, currentCard, moveToNextAvailable, animationClass]);
+  }, [cards, currentIndex, currentCard, moveToNextAvailable, animationClass, recordReview, recordEvent]);
 
   const handlePointerDown = (e: React.PointerEvent) => {
     if (mode !== SessionMode.FLASHCARD || showStats || animationClass) return;
@@ -176,7 +300,7 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     const duration = Date.now() - pointerStartPos.current.time;
 
     if (!isDragging || (absX < TAP_THRESHOLD && absY < TAP_THRESHOLD && duration < 300)) {
-      setIsFlipped(!isFlipped);
+      flipCard();
     } else if (isFlipped) {
       if (absY > absX && y < -SWIPE_THRESHOLD) {
         handleGrade(0, true); 
@@ -191,6 +315,12 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     pointerStartPos.current = null;
   };
 
+  const flipCard = () => {
+    if (!currentCard) return;
+    if (!isFlipped) announce(`裏面: ${answerText(currentCard, currentDirection)}${currentCard.notes ? `。${currentCard.notes}` : ''}`);
+    setIsFlipped(!isFlipped);
+  };
+
   const handleSpeakerClick = (e: React.PointerEvent | React.MouseEvent) => {
     e.stopPropagation();
     if (currentCard) playTextToSpeech(currentCard.front);
@@ -198,11 +328,15 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
 
   const startMemoryGame = () => {
     const selected = [...deck.cards].sort(() => Math.random() - 0.5).slice(0, MEMORY_PAIR_COUNT);
+    const directions = assignDirections(deck.name, selected, reviewStates, direction);
+    // The prompt side of each pair is highlighted like a card's front
     const pairs = [
-      ...selected.map(c => ({ id: c.id, content: c.front, type: 'front' as const, isFlipped: false, isMatched: false })),
-      ...selected.map(c => ({ id: c.id, content: c.back, type: 'back' as const, isFlipped: false, isMatched: false }))
+      ...selected.map(c => ({ id: c.id, content: c.front, type: 'front' as const, isPrompt: directions[c.id] === 'enToJa', isFlipped: false, isMatched: false })),
+      ...selected.map(c => ({ id: c.id, content: c.back, type: 'back' as const, isPrompt: directions[c.id] === 'jaToEn', isFlipped: false, isMatched: false }))
     ].sort(() => Math.random() - 0.5);
+    setCardDirections(directions);
     setMemoryCards(pairs);
+    setMemoryFocus(0);
     setMode(SessionMode.MEMORY);
     setTimer(0);
     setMemoryClickCount(0);
@@ -217,6 +351,8 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     const newCards = [...memoryCards];
     newCards[index].isFlipped = true;
     setMemoryCards(newCards);
+    announce(newCards[index].content);
+    if (selectedIndices.length === 0) pairStartRef.current = performance.now();
 
     const newSelected = [...selectedIndices, index];
     setSelectedIndices(newSelected);
@@ -224,6 +360,9 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     if (newSelected.length === 2) {
       const [first, second] = newSelected;
       if (memoryCards[first].id === memoryCards[second].id && memoryCards[first].type !== memoryCards[second].type) {
+        const matched = deck.cards.find(c => c.id === memoryCards[first].id);
+        if (matched) recordEvent(matched, 'correct', SessionMode.MEMORY, pairStartRef.current);
+        announce(`ペア成立: ${memoryCards[first].content} / ${memoryCards[second].content}`);
         setTimeout(() => {
           const matchedCards = [...newCards];
           matchedCards[first].isMatched = true;
@@ -236,6 +375,7 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
           }
         }, 600);
       } else {
+        announce('不一致');
         setTimeout(() => {
           const resetCards = [...newCards];
           resetCards[first].isFlipped = false;
@@ -248,23 +388,34 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
   };
 
   const startListeningGame = () => {
+    const directions = assignDirections(deck.name, cards, reviewStates, direction);
+    setCardDirections(directions);
     setMode(SessionMode.LISTENING);
-    setupListeningTurn(0);
+    setupListeningTurn(0, directions);
   };
 
-  const setupListeningTurn = (idx: number) => {
-    const correct = cards[idx];
-    const others = cards.filter(c => c.id !== correct.id).sort(() => Math.random() - 0.5).slice(0, 3);
-    const options = [correct.back, ...others.map(o => o.back)].sort(() => Math.random() - 0.5);
-    setListeningOptions(options);
+  /**
+   * English to Japanese plays the word and offers meanings; Japanese to English shows
+   * the meaning, offers words, and plays the answer once it is chosen.
+   */
+  const setupListeningTurn = (idx: number, directions: DirectionMap = cardDirections, pool: Flashcard[] = cards) => {
+    const correct = pool[idx];
+    const turnDirection = directions[correct.id] ?? 'enToJa';
+    setListeningOptions(buildChoices(correct, pool, turnDirection));
     setListeningFeedback(null);
-    playTextToSpeech(correct.front);
+    if (turnDirection === 'jaToEn') announce(`意味: ${correct.back}`);
+    shownAtRef.current = performance.now();
+    if (turnDirection === 'enToJa') playTextToSpeech(correct.front);
   };
 
-  const handleListeningAnswer = (answer: string) => {
+  const handleListeningAnswer = (choice: Flashcard) => {
     if (listeningFeedback) return;
-    const isCorrect = answer === cards[currentIndex].back;
+    const isCorrect = choice.id === cards[currentIndex].id;
     setListeningFeedback(isCorrect ? 'correct' : 'wrong');
+    announce(isCorrect ? '正解' : `不正解。正解は ${answerText(cards[currentIndex], currentDirection)}`);
+    recordEvent(cards[currentIndex], isCorrect ? 'correct' : 'wrong', SessionMode.LISTENING);
+    if (!isCorrect) recordConfusion(cards[currentIndex], choice, SessionMode.LISTENING);
+    if (currentDirection === 'jaToEn') playTextToSpeech(cards[currentIndex].front);
     
     const updated = cards.map((c, i) => 
       i === currentIndex ? { ...c, masteryScore: isCorrect ? MAX_MASTERY : 0 } : c
@@ -284,6 +435,144 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     }, 1200);
   };
 
+  const startTypingGame = () => {
+    // Typing always asks for the English word, so it trains the reverse direction
+    setCardDirections(assignDirections(deck.name, cards, reviewStates, 'jaToEn'));
+    setCurrentIndex(0);
+    setMode(SessionMode.TYPING);
+  };
+
+  const handleTypingAnswer = (masteryScore: number, grade: ReviewGrade) => {
+    const card = cards[currentIndex];
+    recordReview(card, grade);
+    recordEvent(card, gradeResult(grade), SessionMode.TYPING);
+    setCards(cards.map((c, i) => i === currentIndex ? { ...c, masteryScore } : c));
+    setHistoryCount(h => h + 1);
+    if (masteryScore > 0) setStreak(s => s + 1);
+    else setStreak(0);
+  };
+
+  const startQuizGame = () => {
+    setCardDirections(assignDirections(deck.name, cards, reviewStates, direction));
+    setCurrentIndex(0);
+    setMode(SessionMode.QUIZ);
+  };
+
+  const handleQuizAnswer = (chosen: Flashcard) => {
+    const card = cards[currentIndex];
+    const isCorrect = chosen.id === card.id;
+    recordReview(card, isCorrect ? 'good' : 'again');
+    recordEvent(card, isCorrect ? 'correct' : 'wrong', SessionMode.QUIZ);
+    if (!isCorrect) recordConfusion(card, chosen, SessionMode.QUIZ);
+    setCards(cards.map((c, i) => i === currentIndex ? { ...c, masteryScore: isCorrect ? MAX_MASTERY : 0 } : c));
+    setHistoryCount(h => h + 1);
+    if (isCorrect) setStreak(s => s + 1);
+    else setStreak(0);
+  };
+
+  const startSpeakingGame = () => {
+    // Like typing, the student produces the English word from its meaning
+    setCardDirections(assignDirections(deck.name, cards, reviewStates, 'jaToEn'));
+    setCurrentIndex(0);
+    setMode(SessionMode.SPEAKING);
+  };
+
+  const handleSpeakingAnswer = (masteryScore: number, grade: ReviewGrade) => {
+    const card = cards[currentIndex];
+    recordReview(card, grade);
+    recordEvent(card, gradeResult(grade), SessionMode.SPEAKING);
+    setCards(cards.map((c, i) => i === currentIndex ? { ...c, masteryScore } : c));
+    setHistoryCount(h => h + 1);
+    if (grade === 'good') setStreak(s => s + 1);
+    else setStreak(0);
+  };
+
+  const startDictationGame = () => {
+    // Only cards with an example sentence can be dictated
+    setCards(cards.filter(c => dictationSentence(c)));
+    setCardDirections({});
+    setCurrentIndex(0);
+    setMode(SessionMode.DICTATION);
+  };
+
+  const modeStarters: Record<SessionMode, () => void> = {
+    [SessionMode.FLASHCARD]: startFlashcards,
+    [SessionMode.MEMORY]: startMemoryGame,
+    [SessionMode.LISTENING]: startListeningGame,
+    [SessionMode.TYPING]: startTypingGame,
+    [SessionMode.QUIZ]: startQuizGame,
+    [SessionMode.SPEAKING]: startSpeakingGame,
+    [SessionMode.DICTATION]: startDictationGame
+  };
+
+  // Once, when the cards are first dealt; a resumed session already has its mode
+  const autoStartedRef = useRef(false);
+  useEffect(() => {
+    if (!startMode || resume || autoStartedRef.current || cards.length === 0) return;
+    autoStartedRef.current = true;
+    modeStarters[startMode]();
+  }, [cards]);
+
+  const handleDictationAnswer = (check: DictationCheck) => {
+    const card = cards[currentIndex];
+    const passed = check.accuracy >= DICTATION_PASS_ACCURACY;
+    recordEvent(card, passed ? 'correct' : 'wrong', SessionMode.DICTATION);
+    setCards(cards.map((c, i) => i === currentIndex ? { ...c, masteryScore: Math.round(check.accuracy * MAX_MASTERY) } : c));
+    setHistoryCount(h => h + 1);
+    if (passed) setStreak(s => s + 1);
+    else setStreak(0);
+  };
+
+  const advanceToNextCard = () => {
+    if (currentIndex + 1 >= cards.length) setShowStats(true);
+    else setCurrentIndex(currentIndex + 1);
+  };
+
+  const restoreSnapshot = (snapshot: SessionSnapshot) => {
+    setMode(snapshot.mode);
+    setDirection(snapshot.direction);
+    setCards(snapshot.cards);
+    setCardDirections(snapshot.cardDirections);
+    setCurrentIndex(snapshot.currentIndex);
+    setStreak(snapshot.streak);
+    setHistoryCount(snapshot.historyCount);
+    setMemoryCards(snapshot.memoryCards);
+    setMemoryClickCount(snapshot.memoryClickCount);
+    setTimer(snapshot.timer);
+    setSessionReviews(snapshot.reviews);
+    setSessionConfusions(snapshot.confusions);
+    setSessionEvents(snapshot.events);
+    if (snapshot.mode === SessionMode.LISTENING) setupListeningTurn(snapshot.currentIndex, snapshot.cardDirections, snapshot.cards);
+  };
+
+  // Snapshot after every move so a closed tab or the ✕ button can be resumed from the
+  // dashboard; the memory clock is saved with each move rather than on every tick.
+  useEffect(() => {
+    if (!mode) return;
+    if (showStats) {
+      clearSessionSnapshot(user.username, deck.name);
+      return;
+    }
+    storeSessionSnapshot(user.username, {
+      deckName: deck.name,
+      mode,
+      direction,
+      cards,
+      cardDirections,
+      currentIndex,
+      streak,
+      historyCount,
+      // Half-turned pairs go back face down
+      memoryCards: memoryCards.map(tile => ({ ...tile, isFlipped: tile.isMatched })),
+      memoryClickCount,
+      timer,
+      reviews: sessionReviews,
+      confusions: sessionConfusions,
+      events: sessionEvents,
+      savedAt: Date.now()
+    });
+  }, [mode, showStats, cards, currentIndex, streak, historyCount, memoryCards, sessionReviews, sessionConfusions, sessionEvents]);
+
   const stats = useMemo(() => {
     const totalPossibleMastery = cards.length * MAX_MASTERY;
     const currentMasterySum = cards.reduce((sum, c) => sum + c.masteryScore, 0);
@@ -298,15 +587,26 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     }
 
     return { 
+      mode: mode ?? undefined,
+      direction: mode === SessionMode.TYPING || mode === SessionMode.SPEAKING ? 'jaToEn' as const : mode === SessionMode.DICTATION ? 'enToJa' as const : direction,
       mastered: masteredCount, 
       total: cards.length, 
       progress: progressValue, 
-      memoryTime: mode === SessionMode.MEMORY ? timer : undefined 
+      memoryTime: mode === SessionMode.MEMORY ? timer : undefined,
+      reviews: Object.values(sessionReviews),
+      confusions: sessionConfusions,
+      events: sessionEvents
     };
-  }, [cards, mode, timer, memoryClickCount]);
+  }, [cards, mode, direction, timer, memoryClickCount, sessionReviews, sessionConfusions, sessionEvents]);
+
+  const tomorrowCards = useMemo(() => {
+    if (mode === SessionMode.MEMORY || mode === SessionMode.LISTENING || mode === SessionMode.DICTATION) return [];
+    return getDueTomorrow(deck.name, deck.cards, { ...reviewStates, ...sessionReviews }, cardDirections);
+  }, [deck, mode, reviewStates, sessionReviews, cardDirections]);
 
   const leaderboardData = useMemo(() => {
-    if (mode !== SessionMode.MEMORY) return null;
+    // Each student's generated deck holds different words, so their times are not comparable
+    if (mode !== SessionMode.MEMORY || deck.cards.some(c => c.origin)) return null;
     const deckRecords = allProgress.filter(p => p.deckName === deck.name && p.memoryTime);
     const myRecords = deckRecords.filter(p => p.username === user.username);
     const pb = myRecords.length > 0 ? Math.min(...myRecords.map(r => r.memoryTime!)) : null;
@@ -321,7 +621,7 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
       .map(([username, time]) => ({ username, time }))
       .sort((a, b) => a.time - b.time).slice(0, 3);
     return { pb, top3, isNewPB };
-  }, [allProgress, deck.name, mode, user.username, timer]);
+  }, [allProgress, deck, mode, user.username, timer]);
 
   const dragFeedback = useMemo(() => {
     if (!drag.isDragging || !isFlipped) return null;
@@ -344,29 +644,125 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
     transition: `transform ${isResetting || (drag.isDragging && isFlipped) ? '0s' : '0.6s cubic-bezier(0.34, 1.56, 0.64, 1)'}`
   };
 
+  const handleMemoryKeyDown = (e: React.KeyboardEvent) => {
+    const columns = memoryColumns();
+    const steps: Record<string, number> = { ArrowRight: 1, ArrowLeft: -1, ArrowDown: columns, ArrowUp: -columns };
+    const step = steps[e.key];
+    if (!step) return;
+    e.preventDefault();
+    // Matched tiles are hidden, so focus jumps over them
+    let next = memoryFocus + step;
+    while (next >= 0 && next < memoryCards.length && memoryCards[next].isMatched) next += step;
+    if (next < 0 || next >= memoryCards.length) return;
+    setMemoryFocus(next);
+    memoryTileRefs.current[next]?.focus();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!mode || showStats || e.altKey || e.ctrlKey || e.metaKey || isTextEntry(e.target)) return;
+    if (e.key === '?') {
+      e.preventDefault();
+      setShowShortcuts(open => !open);
+      return;
+    }
+    if (showShortcuts) {
+      if (e.key === 'Escape') setShowShortcuts(false);
+      return;
+    }
+    const pressesButton = (e.key === ' ' || e.key === 'Enter') && isButtonTarget(e.target);
+
+    if (mode === SessionMode.FLASHCARD && currentCard && !animationClass) {
+      if ((e.key === ' ' || e.key === 'Enter') && !pressesButton) {
+        e.preventDefault();
+        flipCard();
+      } else if (e.key.toLowerCase() === 's') {
+        playTextToSpeech(currentCard.front);
+      } else if (isFlipped && (e.key === '1' || e.key === 'ArrowRight')) {
+        handleGrade(-1);
+      } else if (isFlipped && (e.key === '2' || e.key === 'ArrowLeft')) {
+        handleGrade(1);
+      } else if (isFlipped && (e.key === '3' || e.key === 'ArrowUp')) {
+        e.preventDefault();
+        handleGrade(0, true);
+      }
+    } else if (mode === SessionMode.LISTENING && cards[currentIndex]) {
+      const index = optionIndex(e.key);
+      if (index !== null && listeningOptions[index]) handleListeningAnswer(listeningOptions[index]);
+      else if (e.key.toLowerCase() === 's' && (currentDirection === 'enToJa' || listeningFeedback)) playTextToSpeech(cards[currentIndex].front);
+    }
+  };
+
+  // Subscribed once; the ref always calls the handler from the latest render
+  const keyHandlerRef = useRef(handleKeyDown);
+  keyHandlerRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
   if (!mode) {
     return (
       <div className="max-w-4xl mx-auto py-10 px-4 animate-in fade-in slide-in-from-bottom-4 duration-700">
         <div className="text-center mb-12">
           <h2 className="text-4xl font-black text-white italic tracking-tighter mb-2 uppercase">SELECT MODE</h2>
           <p className="text-jec-yellow text-xs font-bold tracking-widest uppercase">トレーニングモードを選択してください</p>
+          <div className="inline-flex mt-8 p-1 bg-zinc-900 rounded-2xl border border-white/5">
+            {(Object.keys(STUDY_DIRECTION_LABELS) as StudyDirection[]).map(d => (
+              <button
+                key={d}
+                onClick={() => changeDirection(d)}
+                aria-pressed={direction === d}
+                className={`px-5 py-2 rounded-xl ${FOCUS_RING} text-xs font-black tracking-widest transition-colors ${direction === d ? 'bg-jec-yellow text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {STUDY_DIRECTION_LABELS[d]}
+              </button>
+            ))}
+          </div>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-          <button onClick={() => setMode(SessionMode.FLASHCARD)} className="group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-green transition-all text-center flex flex-col items-center shadow-xl">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          <button onClick={startFlashcards} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-green transition-all text-center flex flex-col items-center shadow-xl ${FOCUS_RING}`}>
             <div className="w-20 h-20 bg-jec-green/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-clone text-jec-green text-3xl"></i></div>
             <h3 className="text-white font-black text-xl mb-2">単語カード</h3>
             <p className="text-zinc-500 text-xs font-bold">直感的なスワイプ学習</p>
+            <p className="mt-3 text-[10px] font-black uppercase tracking-widest text-jec-green">
+              {dueCounts.review + dueCounts.fresh > 0 ? `今日の復習 ${dueCounts.review} • 新規 ${dueCounts.fresh}` : '今日の復習は完了 • 全体を練習'}
+            </p>
           </button>
-          <button onClick={startMemoryGame} className="group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-yellow transition-all text-center flex flex-col items-center shadow-xl">
+          <button onClick={startMemoryGame} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-yellow transition-all text-center flex flex-col items-center shadow-xl ${FOCUS_RING}`}>
             <div className="w-20 h-20 bg-jec-yellow/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-brain text-jec-yellow text-3xl"></i></div>
             <h3 className="text-white font-black text-xl mb-2">神経衰弱</h3>
             <p className="text-zinc-500 text-xs font-bold">遊びながら記憶を定着</p>
           </button>
-          <button onClick={startListeningGame} className="group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-orange transition-all text-center flex flex-col items-center shadow-xl">
+          <button onClick={startListeningGame} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-orange transition-all text-center flex flex-col items-center shadow-xl ${FOCUS_RING}`}>
             <div className="w-20 h-20 bg-jec-orange/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-headphones text-jec-orange text-3xl"></i></div>
             <h3 className="text-white font-black text-xl mb-2">リスニング</h3>
             <p className="text-zinc-500 text-xs font-bold">AI音声で発音をマスター</p>
           </button>
+          <button onClick={startTypingGame} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-white transition-all text-center flex flex-col items-center shadow-xl ${FOCUS_RING}`}>
+            <div className="w-20 h-20 bg-white/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-keyboard text-white text-3xl"></i></div>
+            <h3 className="text-white font-black text-xl mb-2">タイピング</h3>
+            <p className="text-zinc-500 text-xs font-bold">意味から英単語を書く</p>
+          </button>
+          <button onClick={startQuizGame} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-green transition-all text-center flex flex-col items-center shadow-xl ${FOCUS_RING}`}>
+            <div className="w-20 h-20 bg-jec-green/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-list-ul text-jec-green text-3xl"></i></div>
+            <h3 className="text-white font-black text-xl mb-2">4択クイズ</h3>
+            <p className="text-zinc-500 text-xs font-bold">紛らわしい選択肢で力試し</p>
+          </button>
+          <button onClick={startSpeakingGame} disabled={!getSpeechRecognizer().isAvailable()} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-orange transition-all text-center flex flex-col items-center shadow-xl disabled:opacity-40 disabled:hover:border-white/5 ${FOCUS_RING}`}>
+            <div className="w-20 h-20 bg-jec-orange/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-microphone text-jec-orange text-3xl"></i></div>
+            <h3 className="text-white font-black text-xl mb-2">スピーキング</h3>
+            <p className="text-zinc-500 text-xs font-bold">
+              {getSpeechRecognizer().isAvailable() ? '声に出して発音をチェック' : 'このブラウザは音声認識に未対応です'}
+            </p>
+          </button>
+          <button onClick={startDictationGame} disabled={dictationCount === 0} className={`group bg-zinc-900 border border-white/5 p-10 rounded-[2.5rem] hover:border-jec-yellow transition-all text-center flex flex-col items-center shadow-xl disabled:opacity-40 disabled:hover:border-white/5 ${FOCUS_RING}`}>
+            <div className="w-20 h-20 bg-jec-yellow/10 rounded-full flex items-center justify-center mb-6 group-hover:scale-110 transition-transform"><i className="fas fa-pen-nib text-jec-yellow text-3xl"></i></div>
+            <h3 className="text-white font-black text-xl mb-2">ディクテーション</h3>
+            <p className="text-zinc-500 text-xs font-bold">
+              {dictationCount > 0 ? `例文を聞いて書き取る • ${dictationCount}文` : '例文のあるカードがありません'}
+            </p>
+          </button>
         </div>
       </div>
     );
@@ -390,6 +786,17 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
             </div>
           </div>
 
+          {tomorrowCards.length > 0 && (
+            <div className="mt-8 p-6 bg-jec-green/5 border border-jec-green/20 rounded-[2rem] text-left">
+              <h4 className="text-[10px] font-black uppercase text-jec-green tracking-[0.3em] mb-4">明日の復習 ({tomorrowCards.length})</h4>
+              <div className="flex flex-wrap gap-2">
+                {tomorrowCards.map(c => (
+                  <span key={c.id} className="px-3 py-1 bg-white/5 rounded-xl text-xs font-black text-gray-500 dark:text-zinc-300">{c.front}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {mode === SessionMode.MEMORY && leaderboardData && (
             <div className="mt-8 space-y-6 text-left">
               <div className="p-4 bg-jec-yellow/5 border border-jec-yellow/20 rounded-2xl flex items-center justify-between">
@@ -423,15 +830,20 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
 
   return (
     <div className="max-w-4xl mx-auto px-4">
+      <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+      {showShortcuts && <ShortcutHelp mode={mode} onClose={() => setShowShortcuts(false)} />}
       <div className="flex items-center justify-between mb-8">
-        <button onClick={() => onClose()} className="w-12 h-12 flex items-center justify-center bg-zinc-900 rounded-2xl text-zinc-500 hover:text-jec-orange transition-colors border border-white/5"><i className="fas fa-times"></i></button>
+        <div className="flex items-center gap-3">
+          <button onClick={() => onClose()} aria-label="閉じる" className={`w-12 h-12 flex items-center justify-center bg-zinc-900 rounded-2xl text-zinc-500 hover:text-jec-orange transition-colors border border-white/5 ${FOCUS_RING}`}><i className="fas fa-times"></i></button>
+          <button onClick={() => setShowShortcuts(true)} aria-label="キーボードショートカット" title="ショートカット (?)" className={`hidden md:flex w-12 h-12 items-center justify-center bg-zinc-900 rounded-2xl text-zinc-500 hover:text-jec-yellow transition-colors border border-white/5 ${FOCUS_RING}`}><i className="fas fa-keyboard"></i></button>
+        </div>
         <div className="flex-grow mx-8 flex flex-col items-center">
           <div className="w-full">
             <div className="flex justify-between text-[10px] text-gray-400 font-black uppercase mb-2 tracking-widest">
               <span>Overall Mastery</span>
               <span className="text-jec-yellow">{stats.progress}%</span>
             </div>
-            <div className="w-full h-2.5 bg-white/5 rounded-full overflow-hidden p-0.5 border border-white/5">
+            <div role="progressbar" aria-label="習得率" aria-valuemin={0} aria-valuemax={100} aria-valuenow={stats.progress} className="w-full h-2.5 bg-white/5 rounded-full overflow-hidden p-0.5 border border-white/5">
               <div 
                 className="h-full bg-gradient-to-r from-jec-green via-jec-yellow to-jec-orange transition-all duration-500 ease-out rounded-full" 
                 style={{ width: `${stats.progress}%` }}
@@ -449,7 +861,10 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
       {mode === SessionMode.FLASHCARD && (
         <div className="max-w-2xl mx-auto">
           <div 
-            className={`relative h-[480px] perspective-1000 mb-10 select-none touch-none ${animationClass}`}
+            role="button"
+            tabIndex={0}
+            aria-label={isFlipped ? '裏面を表示中。1から3のキーで評価' : 'スペースキーでカードをめくる'}
+            className={`relative h-[480px] perspective-1000 mb-10 select-none touch-none rounded-[3rem] ${FOCUS_RING} ${animationClass}`}
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
@@ -470,23 +885,31 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
 
             <div className="flip-card-inner preserve-3d shadow-2xl rounded-[3rem] h-full w-full relative" style={cardStyle}>
               <div className="flip-card-front absolute inset-0 backface-hidden bg-white dark:bg-zinc-900 rounded-[3rem] border-2 border-gray-50 dark:border-white/10 p-10 flex flex-col items-center justify-center text-center">
-                <span className="absolute top-8 left-1/2 -translate-x-1/2 text-[10px] font-black text-gray-300 dark:text-zinc-800 uppercase tracking-[0.4em] italic">表面 (ENGLISH)</span>
-                <h3 className="text-5xl md:text-6xl font-black text-gray-900 dark:text-white tracking-tighter leading-tight italic">{currentCard?.front}</h3>
-                <button 
-                  onPointerDown={(e) => e.stopPropagation()}
-                  onClick={handleSpeakerClick}
-                  className="speaker-btn absolute bottom-10 right-10 w-14 h-14 bg-jec-yellow/10 dark:bg-white/5 rounded-full flex items-center justify-center text-jec-yellow hover:scale-110 active:scale-90 transition-all border border-jec-yellow/20 z-10"
-                >
-                  <i className="fas fa-volume-up text-xl"></i>
-                </button>
+                <span className="absolute top-8 left-1/2 -translate-x-1/2 text-[10px] font-black text-gray-300 dark:text-zinc-800 uppercase tracking-[0.4em] italic">表面 ({SIDE_LANGUAGE_LABELS[currentDirection === 'enToJa' ? 'front' : 'back']})</span>
+                <h3 className="text-5xl md:text-6xl font-black text-gray-900 dark:text-white tracking-tighter leading-tight italic">
+                  {currentCard && (currentDirection === 'jaToEn' ? <WithReading text={currentCard.back} reading={currentCard.furigana} /> : currentCard.front)}
+                </h3>
+                {currentDirection === 'enToJa' && (
+                  <button 
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={handleSpeakerClick}
+                    aria-label="発音を再生"
+                    tabIndex={isFlipped ? -1 : 0}
+                    className="speaker-btn absolute bottom-10 right-10 w-14 h-14 bg-jec-yellow/10 dark:bg-white/5 rounded-full flex items-center justify-center text-jec-yellow hover:scale-110 active:scale-90 transition-all border border-jec-yellow/20 z-10"
+                  >
+                    <i className="fas fa-volume-up text-xl"></i>
+                  </button>
+                )}
                 <div className="absolute bottom-8 left-1/2 -translate-x-1/2 text-[10px] font-black text-gray-400 uppercase tracking-widest animate-pulse">TAP TO FLIP</div>
               </div>
               
               <div className="flip-card-back absolute inset-0 backface-hidden bg-black text-white rounded-[3rem] p-10 flex flex-col items-center justify-center text-center shadow-inner border-4 border-jec-yellow" style={{ transform: 'rotateY(180deg)' }}>
-                <span className="absolute top-8 left-1/2 -translate-x-1/2 text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic">裏面 (JAPANESE)</span>
+                <span className="absolute top-8 left-1/2 -translate-x-1/2 text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic">裏面 ({SIDE_LANGUAGE_LABELS[currentDirection === 'enToJa' ? 'back' : 'front']})</span>
                 
-                <div className="flex flex-col items-center gap-6">
-                  <h3 className="text-5xl md:text-6xl font-black text-white tracking-tighter leading-tight italic">{currentCard?.back}</h3>
+                <div className="flex flex-col items-center gap-6 max-h-full overflow-y-auto py-10">
+                  <h3 className="text-5xl md:text-6xl font-black text-white tracking-tighter leading-tight italic">
+                    {currentCard && (currentDirection === 'enToJa' ? <WithReading text={currentCard.back} reading={currentCard.furigana} /> : currentCard.front)}
+                  </h3>
                   {currentCard?.notes && (
                     <div className="bg-white/10 px-6 py-3 rounded-2xl border border-white/5 max-w-[80%]">
                       <p className="text-jec-yellow text-sm md:text-base font-bold italic leading-relaxed">
@@ -495,11 +918,14 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
                       </p>
                     </div>
                   )}
+                  {currentCard && <CardDetails card={currentCard} />}
                 </div>
 
                 <button 
                   onPointerDown={(e) => e.stopPropagation()}
                   onClick={handleSpeakerClick}
+                  aria-label="発音を再生"
+                  tabIndex={isFlipped ? 0 : -1}
                   className="speaker-btn absolute bottom-10 right-10 w-14 h-14 bg-white/10 rounded-full flex items-center justify-center text-jec-yellow hover:scale-110 active:scale-90 transition-all border border-white/10 z-10"
                 >
                   <i className="fas fa-volume-up text-xl"></i>
@@ -513,21 +939,24 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
             <button 
               onClick={() => isFlipped && handleGrade(-1)} 
               disabled={!isFlipped}
-              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest transition-all border border-white/5 ${isFlipped ? 'bg-zinc-900 text-jec-orange hover:bg-jec-orange hover:text-white' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
+              aria-keyshortcuts="1 ArrowRight"
+              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest transition-all border border-white/5 ${FOCUS_RING} ${isFlipped ? 'bg-zinc-900 text-jec-orange hover:bg-jec-orange hover:text-white' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
             >
               <i className="fas fa-times mr-2"></i> 苦手
             </button>
             <button 
               onClick={() => isFlipped && handleGrade(1)} 
               disabled={!isFlipped}
-              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest transition-all border border-white/5 ${isFlipped ? 'bg-zinc-900 text-jec-green hover:bg-jec-green hover:text-black' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
+              aria-keyshortcuts="2 ArrowLeft"
+              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest transition-all border border-white/5 ${FOCUS_RING} ${isFlipped ? 'bg-zinc-900 text-jec-green hover:bg-jec-green hover:text-black' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
             >
               <i className="fas fa-check mr-2"></i> 正解
             </button>
             <button 
               onClick={() => isFlipped && handleGrade(0, true)} 
               disabled={!isFlipped}
-              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest shadow-xl transition-all ${isFlipped ? 'bg-jec-yellow text-black hover:scale-105' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
+              aria-keyshortcuts="3 ArrowUp"
+              className={`py-6 rounded-[2rem] font-black uppercase tracking-widest shadow-xl transition-all ${FOCUS_RING} ${isFlipped ? 'bg-jec-yellow text-black hover:scale-105' : 'bg-zinc-950 text-zinc-800 opacity-50 cursor-not-allowed'}`}
             >
               <i className="fas fa-star mr-2"></i> 習得
             </button>
@@ -536,34 +965,78 @@ const StudySession: React.FC<StudySessionProps> = ({ deck, user, allProgress, on
       )}
 
       {mode === SessionMode.MEMORY && (
-        <div className="grid grid-cols-3 md:grid-cols-4 gap-4 animate-in fade-in zoom-in duration-500">
+        <div role="group" aria-label="神経衰弱のカード（矢印キーで移動）" onKeyDown={handleMemoryKeyDown} className="grid grid-cols-3 md:grid-cols-4 gap-4 animate-in fade-in zoom-in duration-500">
           {memoryCards.map((card, i) => (
-            <div key={i} onClick={() => handleMemoryClick(i)} className={`h-32 rounded-2xl cursor-pointer transition-all duration-300 ${card.isMatched ? 'opacity-0 scale-90 pointer-events-none' : ''}`}>
+            <button
+              key={i}
+              ref={el => { memoryTileRefs.current[i] = el; }}
+              tabIndex={i === memoryFocus ? 0 : -1}
+              onFocus={() => setMemoryFocus(i)}
+              onClick={() => handleMemoryClick(i)}
+              aria-disabled={card.isMatched}
+              aria-label={card.isMatched ? `${card.content}（成立済み）` : card.isFlipped ? `${SIDE_LANGUAGE_LABELS[card.type]}: ${card.content}` : `伏せられたカード ${i + 1}`}
+              className={`h-32 rounded-2xl cursor-pointer transition-all duration-300 ${FOCUS_RING} ${card.isMatched ? 'opacity-0 scale-90 pointer-events-none' : ''}`}
+            >
               <div className={`relative w-full h-full transition-transform duration-500 preserve-3d ${card.isFlipped ? 'rotate-y-180' : ''}`} style={{ transform: card.isFlipped ? 'rotateY(180deg)' : '' }}>
                 <div className="absolute inset-0 backface-hidden bg-zinc-800 rounded-2xl border border-white/5 flex items-center justify-center"><i className="fas fa-bolt text-jec-yellow/20 text-2xl"></i></div>
-                <div className="absolute inset-0 backface-hidden bg-white dark:bg-zinc-900 rounded-2xl border-2 border-jec-yellow flex items-center justify-center p-3 text-center" style={{ transform: 'rotateY(180deg)' }}><span className={`text-xs font-black ${card.type === 'front' ? 'text-jec-green' : 'text-jec-orange'}`}>{card.content}</span></div>
+                <div className="absolute inset-0 backface-hidden bg-white dark:bg-zinc-900 rounded-2xl border-2 border-jec-yellow flex items-center justify-center p-3 text-center" style={{ transform: 'rotateY(180deg)' }}>
+                  <span className="absolute top-2 left-1/2 -translate-x-1/2 text-[8px] font-black text-gray-300 dark:text-zinc-600 uppercase tracking-widest">{SIDE_LANGUAGE_LABELS[card.type]}</span>
+                  <span className={`text-xs font-black ${card.isPrompt ? 'text-jec-green' : 'text-jec-orange'}`}>{card.content}</span>
+                </div>
               </div>
-            </div>
+            </button>
           ))}
         </div>
       )}
 
+      {mode === SessionMode.TYPING && currentCard && (
+        <TypingPractice card={currentCard} maxMastery={MAX_MASTERY} onAnswered={handleTypingAnswer} onNext={advanceToNextCard} />
+      )}
+
+      {mode === SessionMode.QUIZ && currentCard && (
+        <QuizPractice card={currentCard} pool={deck.cards} direction={currentDirection} shortcutsEnabled={!showShortcuts} onAnswered={handleQuizAnswer} onNext={advanceToNextCard} />
+      )}
+
+      {mode === SessionMode.DICTATION && currentCard && (
+        <DictationPractice card={currentCard} sentence={dictationSentence(currentCard) ?? ''} onAnswered={handleDictationAnswer} onNext={advanceToNextCard} />
+      )}
+
+      {mode === SessionMode.SPEAKING && currentCard && (
+        <SpeakingPractice card={currentCard} maxMastery={MAX_MASTERY} shortcutsEnabled={!showShortcuts} onAnswered={handleSpeakingAnswer} onNext={advanceToNextCard} />
+      )}
+
       {mode === SessionMode.LISTENING && (
         <div className="max-w-xl mx-auto space-y-10 py-10">
           <div className="text-center">
-            <button onClick={() => playTextToSpeech(cards[currentIndex].front)} className={`w-40 h-40 bg-zinc-900 rounded-full flex items-center justify-center shadow-2xl hover:scale-105 transition-all border-4 ${listeningFeedback === 'correct' ? 'border-jec-green' : listeningFeedback === 'wrong' ? 'border-jec-orange' : 'border-jec-yellow'}`}>
+            {currentDirection === 'jaToEn' && (
+              <h3 className="mb-8 text-4xl md:text-5xl font-black text-white tracking-tighter italic"><WithReading text={cards[currentIndex].back} reading={cards[currentIndex].furigana} /></h3>
+            )}
+            <button onClick={() => playTextToSpeech(cards[currentIndex].front)} disabled={currentDirection === 'jaToEn' && !listeningFeedback} aria-label="もう一度聞く" aria-keyshortcuts="S" className={`w-40 h-40 ${FOCUS_RING} disabled:opacity-30 bg-zinc-900 rounded-full flex items-center justify-center shadow-2xl hover:scale-105 transition-all border-4 ${listeningFeedback === 'correct' ? 'border-jec-green' : listeningFeedback === 'wrong' ? 'border-jec-orange' : 'border-jec-yellow'}`}>
               <i className={`fas fa-volume-up text-5xl ${listeningFeedback === 'correct' ? 'text-jec-green' : listeningFeedback === 'wrong' ? 'text-jec-orange' : 'text-jec-yellow'}`}></i>
             </button>
-            <p className="mt-8 text-zinc-500 font-black uppercase tracking-widest text-[10px]">音声を聞いて正しい意味を選択してください</p>
+            <p className="mt-8 text-zinc-500 font-black uppercase tracking-widest text-[10px]">
+              {currentDirection === 'enToJa' ? '音声を聞いて正しい意味を選択してください' : '意味に合う英単語を選択してください'}
+            </p>
             {listeningFeedback && cards[currentIndex].notes && (
               <div className="mt-4 p-4 bg-jec-yellow/10 rounded-2xl border border-jec-yellow/20 animate-in fade-in slide-in-from-top-2 duration-300">
                 <p className="text-jec-yellow text-xs font-bold italic">{cards[currentIndex].notes}</p>
               </div>
             )}
+            {listeningFeedback && (
+              <div className="mt-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                <p className="mb-3 text-lg font-black text-white">
+                  {cards[currentIndex].front} — <WithReading text={cards[currentIndex].back} reading={cards[currentIndex].furigana} />
+                </p>
+                <CardDetails card={cards[currentIndex]} />
+              </div>
+            )}
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             {listeningOptions.map((option, i) => (
-              <button key={i} disabled={!!listeningFeedback} onClick={() => handleListeningAnswer(option)} className={`p-6 rounded-3xl font-black text-lg transition-all border-2 border-transparent shadow-lg ${listeningFeedback === 'correct' && option === cards[currentIndex].back ? 'bg-jec-green text-black border-jec-green' : listeningFeedback === 'wrong' && option === cards[currentIndex].back ? 'bg-jec-green text-black' : listeningFeedback === 'wrong' ? 'bg-zinc-800 text-zinc-600 opacity-50' : 'bg-zinc-900 text-white hover:border-jec-yellow'}`}>{option}</button>
+              <button key={option.id} disabled={!!listeningFeedback} onClick={() => handleListeningAnswer(option)} aria-keyshortcuts={String(i + 1)} className={`relative p-6 rounded-3xl font-black text-lg transition-all border-2 border-transparent shadow-lg ${FOCUS_RING} ${listeningFeedback === 'correct' && option.id === cards[currentIndex].id ? 'bg-jec-green text-black border-jec-green' : listeningFeedback === 'wrong' && option.id === cards[currentIndex].id ? 'bg-jec-green text-black' : listeningFeedback === 'wrong' ? 'bg-zinc-800 text-zinc-600 opacity-50' : 'bg-zinc-900 text-white hover:border-jec-yellow'}`}>
+                <span aria-hidden="true" className="hidden md:block absolute top-3 left-4 text-[10px] opacity-40">{i + 1}</span>
+                {answerText(option, currentDirection)}
+              </button>
             ))}
           </div>
         </div>
@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { Assignment, ClassGroup, ConfusionRecord, Deck, Exam, ExamResult, ReviewEvent, StudentProgress, User } from '../types';
+import { DataProvider } from '../services/dataProvider';
+import {
+  StudentDeckSummary, SummarySortKey, getStudentHistory, isFallingBehind, sortSummaries, summarizeClassProgress, summarizeConfusions
+} from '../services/classAnalytics';
+import { summarizeCardEvents } from '../services/reviewEvents';
+import ClassManager from './ClassManager';
+import DeckEditor from './DeckEditor';
+import ExamManager from './ExamManager';
+
+interface TeacherDashboardProps {
+  provider: DataProvider;
+  user: User;
+  decks: Deck[];
+  classes: ClassGroup[];
+  assignments: Assignment[];
+  confusions: ConfusionRecord[];
+  reviewEvents: ReviewEvent[];
+  exams: Exam[];
+  examResults: ExamResult[];
+  allProgress: StudentProgress[];
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: SummarySortKey; label: string }[] = [
+  { key: 'username', label: '生徒' },
+  { key: 'deckName', label: '単語帳' },
+  { key: 'mastery', label: '習得率' },
+  { key: 'cardsMastered', label: '習得語数' },
+  { key: 'lastAttempted', label: '最終学習日' },
+  { key: 'trend', label: '推移' }
+];
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  if (values.length < 2) return <span className="text-[10px] text-gray-300 dark:text-zinc-700">—</span>;
+  const width = 64;
+  const height = 20;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * width},${height - (v / 100) * height}`)
+    .join(' ');
+  const rising = values[values.length - 1] >= values[0];
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline points={points} fill="none" strokeWidth={2} className={rising ? 'stroke-jec-green' : 'stroke-jec-orange'} />
+    </svg>
+  );
+};
+
+const CONFUSION_LIMIT = 10;
+const MISSED_WORD_LIMIT = 10;
+
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ provider, user, decks, classes, assignments, confusions, reviewEvents, exams, examResults, allProgress, onChanged, onClose }) => {
+  const [tab, setTab] = useState<'progress' | 'classes' | 'exams' | 'decks'>('progress');
+  const [sortKey, setSortKey] = useState<SummarySortKey>('mastery');
+  const [ascending, setAscending] = useState(true);
+  const [search, setSearch] = useState('');
+  const [deckFilter, setDeckFilter] = useState('');
+  const [behindOnly, setBehindOnly] = useState(false);
+  const [selectedStudent, setSelectedStudent] = useState<string | null>(null);
+
+  const summaries = useMemo(() => summarizeClassProgress(allProgress), [allProgress]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = summaries.filter(row =>
+      (!query || row.username.toLowerCase().includes(query)) &&
+      (!deckFilter || row.deckName === deckFilter) &&
+      (!behindOnly || isFallingBehind(row))
+    );
+    return sortSummaries(filtered, sortKey, ascending);
+  }, [summaries, search, deckFilter, behindOnly, sortKey, ascending]);
+
+  const studentCount = useMemo(() => new Set(summaries.map(s => s.username)).size, [summaries]);
+  const behindCount = useMemo(() => new Set(summaries.filter(s => isFallingBehind(s)).map(s => s.username)).size, [summaries]);
+
+  const confusionRows = useMemo(
+    () => summarizeConfusions(confusions, decks).filter(row => !deckFilter || row.deckName === deckFilter).slice(0, CONFUSION_LIMIT),
+    [confusions, decks, deckFilter]
+  );
+
+  const missedWordRows = useMemo(
+    () => summarizeCardEvents(reviewEvents.filter(e => !deckFilter || e.deckName === deckFilter))
+      .filter(row => row.misses > 0)
+      .flatMap(row => {
+        const card = decks.find(d => d.name === row.deckName)?.cards.find(c => c.id === row.cardId);
+        return card ? [{ ...row, front: card.front, back: card.back }] : [];
+      })
+      .slice(0, MISSED_WORD_LIMIT),
+    [reviewEvents, decks, deckFilter]
+  );
+
+  const history = useMemo(
+    () => selectedStudent ? getStudentHistory(allProgress, selectedStudent) : [],
+    [allProgress, selectedStudent]
+  );
+
+  const toggleSort = (key: SummarySortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const renderRow = (row: StudentDeckSummary) => {
+    const behind = isFallingBehind(row);
+    return (
+      <tr
+        key={`${row.username}::${row.deckName}`}
+        onClick={() => setSelectedStudent(row.username)}
+        className="border-t border-gray-50 dark:border-white/5 hover:bg-jec-yellow/5 cursor-pointer transition-colors"
+      >
+        <td className="py-4 px-4 text-xs font-black text-gray-900 dark:text-white">
+          {behind && <i className="fas fa-exclamation-circle text-jec-orange mr-2" title="要フォロー"></i>}
+          @{row.username}
+        </td>
+        <td className="py-4 px-4 text-xs font-bold text-gray-500 dark:text-zinc-400">{row.deckName}</td>
+        <td className="py-4 px-4">
+          <div className="flex items-center gap-2">
+            <div className="w-20 bg-gray-100 dark:bg-black h-2 rounded-full overflow-hidden">
+              <div className="bg-gradient-to-r from-jec-green via-jec-yellow to-jec-orange h-full" style={{ width: `${row.mastery}%` }}></div>
+            </div>
+            <span className="text-xs font-black text-jec-orange">{row.mastery}%</span>
+          </div>
+        </td>
+        <td className="py-4 px-4 text-xs font-bold text-gray-500 dark:text-zinc-400">{row.cardsMastered} / {row.totalCards}</td>
+        <td className="py-4 px-4 text-xs font-bold text-gray-500 dark:text-zinc-400 italic">{new Date(row.lastAttempted).toLocaleDateString()}</td>
+        <td className="py-4 px-4">
+          <div className="flex items-center gap-2">
+            <Sparkline values={row.history} />
+            <span className={`text-[10px] font-black ${row.trend > 0 ? 'text-jec-green' : row.trend < 0 ? 'text-jec-orange' : 'text-gray-400'}`}>
+              {row.trend > 0 ? '+' : ''}{row.trend}
+            </span>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h3 className="text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase italic">
+            Class <span className="text-jec-yellow">Progress</span>
+          </h3>
+          <p className="text-xs font-bold text-gray-400 dark:text-zinc-500 mt-2 uppercase tracking-widest">
+            生徒 {studentCount}名 • 要フォロー {behindCount}名
+          </p>
+        </div>
+        <button onClick={onClose} className="flex items-center gap-2 px-6 py-3 bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-zinc-400 rounded-2xl font-black hover:bg-jec-yellow hover:text-black transition-all text-xs uppercase tracking-widest">
+          <i className="fas fa-arrow-left"></i>
+          学習画面に戻る
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {([['progress', '進捗'], ['classes', 'クラスと課題'], ['exams', '試験'], ['decks', '単語帳']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${tab === key ? 'bg-jec-yellow text-black' : 'bg-gray-100 dark:bg-zinc-900 text-gray-500 dark:text-zinc-400'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'decks' ? (
+        <DeckEditor provider={provider} decks={decks} onChanged={onChanged} />
+      ) : tab === 'exams' ? (
+        <ExamManager
+          provider={provider}
+          user={user}
+          decks={decks}
+          classes={classes}
+          exams={exams}
+          examResults={examResults}
+          onChanged={onChanged}
+        />
+      ) : tab === 'classes' ? (
+        <ClassManager
+          provider={provider}
+          user={user}
+          decks={decks}
+          classes={classes}
+          assignments={assignments}
+          allProgress={allProgress}
+          onChanged={onChanged}
+        />
+      ) : (
+        <>
+          <div className="flex flex-col md:flex-row gap-4">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="生徒IDで検索"
+              className="flex-grow px-6 py-3 bg-gray-100 dark:bg-zinc-900 border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold text-sm"
+            />
+            <select
+              value={deckFilter}
+              onChange={(e) => setDeckFilter(e.target.value)}
+              className="px-6 py-3 bg-gray-100 dark:bg-zinc-900 border-none rounded-2xl outline-none text-gray-900 dark:text-white font-bold text-sm"
+            >
+              <option value="">全ての単語帳</option>
+              {decks.map(d => <option key={d.id} value={d.name}>{d.name}</option>)}
+            </select>
+            <button
+              onClick={() => setBehindOnly(!behindOnly)}
+              className={`px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all ${behindOnly ? 'bg-jec-orange text-black' : 'bg-gray-100 dark:bg-zinc-900 text-gray-500 dark:text-zinc-400'}`}
+            >
+              <i className="fas fa-exclamation-circle mr-2"></i>
+              要フォローのみ
+            </button>
+          </div>
+
+          <div className="bg-white dark:bg-zinc-900 rounded-[2.5rem] border border-gray-100 dark:border-white/5 overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr>
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className="py-4 px-4">
+                      <button onClick={() => toggleSort(col.key)} className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1 ${sortKey === col.key ? 'text-jec-yellow' : 'text-gray-400 dark:text-zinc-600'}`}>
+                        {col.label}
+                        {sortKey === col.key && <i className={`fas ${ascending ? 'fa-caret-up' : 'fa-caret-down'}`}></i>}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length > 0 ? rows.map(renderRow) : (
+                  <tr>
+                    <td colSpan={COLUMNS.length} className="py-16 text-center text-xs font-black text-gray-400 dark:text-zinc-600 uppercase tracking-widest">該当する記録がありません</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {confusionRows.length > 0 && (
+            <div className="bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-4">
+              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-orange">よくある混同 (4択)</h4>
+              <div className="space-y-2">
+                {confusionRows.map((row, i) => (
+                  <div key={i} className="flex items-center justify-between gap-4 p-3 bg-gray-50 dark:bg-black rounded-xl text-xs font-bold">
+                    <span className="text-gray-400 dark:text-zinc-500 w-32 truncate">{row.deckName}</span>
+                    <span className="flex-grow text-gray-900 dark:text-white">
+                      {row.card} <i className="fas fa-arrow-right mx-2 text-jec-orange"></i> {row.chosen}
+                    </span>
+                    <span className="text-jec-orange whitespace-nowrap">{row.count}回 • {row.students}名</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {missedWordRows.length > 0 && (
+            <div className="bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-gray-100 dark:border-white/5 space-y-4">
+              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-jec-orange">つまずきやすい単語</h4>
+              <div className="space-y-2">
+                {missedWordRows.map(row => (
+                  <div key={`${row.deckName}::${row.cardId}`} className="flex items-center justify-between gap-4 p-3 bg-gray-50 dark:bg-black rounded-xl text-xs font-bold">
+                    <span className="text-gray-400 dark:text-zinc-500 w-32 truncate">{row.deckName}</span>
+                    <span className="flex-grow text-gray-900 dark:text-white">
+                      {row.front} <span className="text-gray-400 dark:text-zinc-500 ml-2">{row.back}</span>
+                    </span>
+                    <span className="text-jec-orange whitespace-nowrap">
+                      誤答 {row.misses}/{row.attempts} ({row.missRate}%) • 平均 {(row.averageLatencyMs / 1000).toFixed(1)}s • {row.students}名
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedStudent && (
+            <div className="bg-white dark:bg-zinc-900 p-8 rounded-[2.5rem] border border-jec-yellow/30 space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xl font-black text-gray-900 dark:text-white tracking-tighter">@{selectedStudent} の学習履歴</h4>
+                <button onClick={() => setSelectedStudent(null)} className="text-gray-400 hover:text-jec-orange transition-colors"><i className="fas fa-times"></i></button>
+              </div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {history.map((record, i) => (
+                  <div key={record.sessionId || i} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-black rounded-xl text-xs font-bold">
+                    <span className="text-gray-400 dark:text-zinc-500 italic w-32">{new Date(record.lastAttempted).toLocaleString()}</span>
+                    <span className="flex-grow text-gray-900 dark:text-white">{record.deckName}</span>
+                    {record.memoryTime !== undefined ? (
+                      <span className="text-jec-yellow">神経衰弱 {record.memoryTime.toFixed(1)}s</span>
+                    ) : (
+                      <span className="text-jec-orange">{record.masteryPercentage}% • {record.cardsMastered}/{record.totalCards}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeacherDashboard;
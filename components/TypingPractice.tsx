@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { playTextToSpeech } from '../services/audio';
+import { FOCUS_RING } from '../services/keyboard';
+import { AnswerCheck, buildHint, checkTypedAnswer, countHintLetters } from '../services/answerCheck';
+
+interface TypingPracticeProps {
+  card: Flashcard;
+  maxMastery: number;
+  onAnswered: (masteryScore: number, grade: ReviewGrade) => void;
+  onNext: () => void;
+}
+
+/**
+ * Each hint letter costs one mastery point; an accepted typo costs one more.
+ */
+function scoreAnswer(check: AnswerCheck, hints: number, maxMastery: number): number {
+  if (check.verdict === 'wrong') return 0;
+  const penalty = hints + (check.verdict === 'close' ? 1 : 0);
+  return Math.max(1, maxMastery - penalty);
+}
+
+const TypingPractice: React.FC<TypingPracticeProps> = ({ card, maxMastery, onAnswered, onNext }) => {
+  const [input, setInput] = useState('');
+  const [hints, setHints] = useState(0);
+  const [result, setResult] = useState<AnswerCheck | null>(null);
+  const [audioPrompt, setAudioPrompt] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hintLetters = countHintLetters(card.front);
+
+  useEffect(() => {
+    setInput('');
+    setHints(0);
+    setResult(null);
+    inputRef.current?.focus();
+    if (audioPrompt) playTextToSpeech(card.front);
+  }, [card.id]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (result) {
+      onNext();
+      return;
+    }
+    if (!input.trim()) return;
+    const check = checkTypedAnswer(input, card.front);
+    setResult(check);
+    onAnswered(scoreAnswer(check, hints, maxMastery), check.verdict !== 'wrong' && hints === 0 ? 'good' : 'again');
+  };
+
+  const toggleAudioPrompt = () => {
+    if (!audioPrompt) playTextToSpeech(card.front);
+    setAudioPrompt(!audioPrompt);
+    inputRef.current?.focus();
+  };
+
+  const tone = !result ? 'border-jec-yellow' : result.verdict === 'wrong' ? 'border-jec-orange' : 'border-jec-green';
+
+  return (
+    <div className="max-w-xl mx-auto space-y-8 py-6">
+      <div className={`bg-zinc-900 rounded-[3rem] p-10 text-center border-4 ${tone} transition-colors shadow-2xl relative`}>
+        <button
+          type="button"
+          onClick={toggleAudioPrompt}
+          aria-pressed={audioPrompt}
+          className={`absolute top-6 right-6 ${FOCUS_RING} px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${audioPrompt ? 'bg-jec-yellow text-black' : 'bg-white/5 text-zinc-500 hover:text-jec-yellow'}`}
+        >
+          <i className="fas fa-headphones mr-1"></i> 音声で出題
+        </button>
+        <span className="block text-[10px] font-black text-jec-yellow uppercase tracking-[0.4em] italic mb-6">英語で入力</span>
+        {audioPrompt ? (
+          <button type="button" onClick={() => playTextToSpeech(card.front)} aria-label="発音を再生" className="w-28 h-28 mx-auto bg-black rounded-full flex items-center justify-center hover:scale-105 transition-all border-2 border-jec-yellow/30">
+            <i className="fas fa-volume-up text-4xl text-jec-yellow"></i>
+          </button>
+        ) : (
+          <h3 className="text-4xl md:text-5xl font-black text-white tracking-tighter italic">{card.back}</h3>
+        )}
+        {card.notes && !audioPrompt && (
+          <p className="mt-4 text-jec-yellow/70 text-xs font-bold italic"><i className="fas fa-info-circle mr-2 opacity-50"></i>{card.notes}</p>
+        )}
+        {hints > 0 && !result && (
+          <p className="mt-6 font-mono text-2xl tracking-[0.3em] text-jec-yellow">{buildHint(card.front, hints)}</p>
+        )}
+      </div>
+
+      <form onSubmit={submit} className="space-y-4">
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          readOnly={!!result}
+          autoComplete="off"
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          placeholder="answer"
+          aria-label="英単語を入力"
+          className="w-full px-8 py-5 bg-zinc-900 border-2 border-white/5 focus:border-jec-yellow rounded-[2rem] outline-none text-white font-black text-2xl text-center"
+        />
+
+        {result && (
+          <div role="status" className={`p-5 rounded-2xl text-center animate-in fade-in slide-in-from-top-2 duration-300 ${result.verdict === 'wrong' ? 'bg-jec-orange/10 text-jec-orange' : 'bg-jec-green/10 text-jec-green'}`}>
+            <p className="text-sm font-black uppercase tracking-widest">
+              {result.verdict === 'correct' ? '正解！' : result.verdict === 'close' ? '惜しい！スペルを確認しましょう' : '不正解'}
+            </p>
+            {result.verdict !== 'correct' && (
+              <p className="mt-2 text-2xl font-black text-white italic">{card.front}</p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <button
+            type="button"
+            onClick={() => { setHints(h => Math.min(hintLetters, h + 1)); inputRef.current?.focus(); }}
+            disabled={!!result || hints >= hintLetters}
+            className={`py-5 rounded-[2rem] font-black uppercase tracking-widest bg-zinc-900 text-jec-yellow ${FOCUS_RING} border border-white/5 hover:bg-jec-yellow hover:text-black transition-all disabled:opacity-30 disabled:hover:bg-zinc-900 disabled:hover:text-jec-yellow`}
+          >
+            <i className="fas fa-lightbulb mr-2"></i> ヒント {hints > 0 && `(${hints})`}
+          </button>
+          <button
+            type="submit"
+            disabled={!result && !input.trim()}
+            className={`py-5 rounded-[2rem] font-black uppercase tracking-widest bg-jec-green text-black ${FOCUS_RING} shadow-xl hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100`}
+          >
+            {result ? <>次へ <i className="fas fa-arrow-right ml-2"></i></> : <>答え合わせ <i className="fas fa-check ml-2"></i></>}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TypingPractice;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { listSpeechVoices, playTextToSpeech, setTtsSettings } from '../services/audio';
+import { MAX_AUDIO_CACHE_BYTES, clearAudioCache, getAudioCacheSize } from '../services/audioCache';
+import {
+  GEMINI_VOICES, MAX_TTS_RATE, MIN_TTS_RATE, TTS_ACCENTS, TTS_PROVIDER_LABELS, TtsAccent, TtsProviderId, TtsSettings,
+  loadTtsSettings, storeTtsSettings
+} from '../services/ttsSettings';
+
+interface VoiceSettingsProps {
+  username: string;
+  sectionClass: string;
+  headingClass: string;
+}
+
+const SAMPLE_TEXT = 'Hello! This is how your words will sound.';
+
+const selectClass = "px-4 py-3 bg-gray-100 dark:bg-black border-none rounded-2xl focus:ring-2 focus:ring-jec-yellow outline-none text-gray-900 dark:text-white font-bold";
+const rowClass = "flex items-center justify-between gap-4 text-xs font-bold text-gray-500 dark:text-zinc-400";
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ username, sectionClass, headingClass }) => {
+  const [settings, setSettings] = useState<TtsSettings>(() => loadTtsSettings(username));
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [cacheSize, setCacheSize] = useState<{ clips: number; bytes: number } | null>(null);
+
+  useEffect(() => {
+    getAudioCacheSize().then(setCacheSize);
+  }, []);
+
+  const handleClearCache = async () => {
+    if (!window.confirm('保存済みの音声をすべて削除しますか？')) return;
+    await clearAudioCache();
+    setCacheSize(await getAudioCacheSize());
+  };
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    // Browsers load their voice list asynchronously
+    const refresh = () => setBrowserVoices(listSpeechVoices(TTS_ACCENTS[settings.accent].lang));
+    refresh();
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+  }, [settings.accent]);
+
+  const update = (changes: Partial<TtsSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    storeTtsSettings(username, next);
+    setTtsSettings(next);
+  };
+
+  const changeProvider = (provider: TtsProviderId) => {
+    // Voice names do not carry over between providers
+    update({ provider, voice: provider === 'gemini' ? GEMINI_VOICES[0] : '' });
+  };
+
+  return (
+    <div className={sectionClass}>
+      <h4 className={`${headingClass} text-jec-green`}><i className="fas fa-volume-up"></i>音声設定</h4>
+
+      <label className={rowClass}>
+        音声の種類
+        <select value={settings.provider} onChange={(e) => changeProvider(e.target.value as TtsProviderId)} className={selectClass}>
+          {(Object.keys(TTS_PROVIDER_LABELS) as TtsProviderId[]).map(id => <option key={id} value={id}>{TTS_PROVIDER_LABELS[id]}</option>)}
+        </select>
+      </label>
+
+      <div className={rowClass}>
+        アクセント
+        <div className="inline-flex p-1 bg-gray-100 dark:bg-black rounded-2xl">
+          {(Object.keys(TTS_ACCENTS) as TtsAccent[]).map(accent => (
+            <button
+              key={accent}
+              type="button"
+              aria-pressed={settings.accent === accent}
+              onClick={() => update({ accent, voice: settings.provider === 'webSpeech' ? '' : settings.voice })}
+              className={`px-4 py-2 rounded-xl text-xs font-black transition-colors ${settings.accent === accent ? 'bg-jec-yellow text-black' : 'text-gray-500 dark:text-zinc-500'}`}
+            >
+              {TTS_ACCENTS[accent].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <label className={rowClass}>
+          声
+          <select value={settings.voice} onChange={(e) => update({ voice: e.target.value })} className={selectClass}>
+            {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        </label>
+      )}
+
+      {settings.provider === 'webSpeech' && (
+        <label className={rowClass}>
+          声
+          <select value={settings.voice} onChange={(e) => update({ voice: e.target.value })} className={selectClass}>
+            <option value="">自動</option>
+            {browserVoices.map(voice => <option key={voice.name} value={voice.name}>{voice.name} ({voice.lang})</option>)}
+          </select>
+        </label>
+      )}
+
+      {settings.provider === 'recorded' && (
+        <label className="block space-y-2 text-xs font-bold text-gray-500 dark:text-zinc-400">
+          <span>音声ファイルのURL（{'{text}'} が単語、{'{accent}'} が us/uk/au に置き換わります）</span>
+          <input
+            type="url"
+            value={settings.audioUrlTemplate}
+            onChange={(e) => update({ audioUrlTemplate: e.target.value })}
+            className={`w-full ${selectClass}`}
+            placeholder="https://example.com/audio/{accent}/{text}.mp3"
+          />
+        </label>
+      )}
+
+      <label className={rowClass}>
+        再生速度 {settings.rate.toFixed(2)}x
+        <input
+          type="range"
+          min={MIN_TTS_RATE}
+          max={MAX_TTS_RATE}
+          step={0.05}
+          value={settings.rate}
+          onChange={(e) => update({ rate: Number(e.target.value) })}
+          className="w-40 accent-jec-yellow"
+        />
+      </label>
+
+      <label className={rowClass}>
+        ゆっくりもう一度再生
+        <input type="checkbox" checked={settings.slowRepeat} onChange={(e) => update({ slowRepeat: e.target.checked })} className="w-5 h-5 accent-jec-yellow" />
+      </label>
+
+      {cacheSize && (
+        <div className={rowClass}>
+          <span>
+            保存済みの音声 {cacheSize.clips}件 • {(cacheSize.bytes / 1024 / 1024).toFixed(1)} / {MAX_AUDIO_CACHE_BYTES / 1024 / 1024} MB
+          </span>
+          <button type="button" onClick={handleClearCache} disabled={cacheSize.clips === 0} className="px-4 py-2 rounded-xl text-xs font-black text-red-500 hover:bg-red-500/10 disabled:opacity-30">
+            削除
+          </button>
+        </div>
+      )}
+
+      <button type="button" onClick={() => playTextToSpeech(SAMPLE_TEXT, settings)} className="w-full bg-gray-100 dark:bg-black text-gray-900 dark:text-white font-black py-4 rounded-2xl active:scale-95 transition-all uppercase tracking-tighter hover:text-jec-yellow">
+        <i className="fas fa-play mr-2"></i>試聴
+      </button>
+    </div>
+  );
+};
+
+export default VoiceSettings;
@@ -0,0 +1,229 @@
+import { CardReviewState, Deck } from '../types';
+import { reviewKey } from './srs';
+import { SqlRow, SqlValue, readSqliteTables, writeSqliteDatabase } from './sqlite';
+import { readZip, writeZip } from './zip';
+import { ImportTable } from './deckImport';
+
+const DAY_S = 24 * 60 * 60;
+const FIELD_SEPARATOR = '\u001f';
+
+// Legacy (schema 11) collection layout, which every Anki version can import
+const SCHEMA = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)'
+};
+
+const CARD_CSS = '.card { font-family: arial; font-size: 24px; text-align: center; color: black; background-color: white; }';
+
+/**
+ * Anki fields are HTML; the app stores plain text.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+interface AnkiField {
+  name: string;
+  ord: number;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function parseJsonColumn(value: SqlValue): Record<string, unknown> {
+  try {
+    return asRecord(typeof value === 'string' ? JSON.parse(value) : null);
+  } catch {
+    return {};
+  }
+}
+
+function isAnkiField(value: unknown): value is AnkiField {
+  const o = asRecord(value);
+  return typeof o.name === 'string' && typeof o.ord === 'number';
+}
+
+/**
+ * Field names of a note type in field order; malformed entries are skipped.
+ */
+function modelFieldNames(model: unknown): string[] {
+  const fields = asRecord(model).flds;
+  if (!Array.isArray(fields)) return [];
+  return fields
+    .filter(isAnkiField)
+    .sort((a, b) => a.ord - b.ord)
+    .map(f => f.name);
+}
+
+/**
+ * Reads the notes of an `.apkg` package. Packages exported by Anki 2.1.50+ without
+ * "Support older Anki versions" only hold a zstd-compressed collection, which the
+ * browser cannot decompress.
+ */
+export async function parseApkg(bytes: Uint8Array<ArrayBuffer>): Promise<ImportTable> {
+  const entries = await readZip(bytes);
+  const collection = entries.find(e => e.name === 'collection.anki21') ?? entries.find(e => e.name === 'collection.anki2');
+  if (!collection || (entries.some(e => e.name === 'collection.anki21b') && collection.name === 'collection.anki2')) {
+    throw new Error('この.apkgは新しい形式です。Ankiで「旧バージョンのAnkiをサポート」にチェックして書き出し直してください。');
+  }
+
+  const tables = readSqliteTables(collection.data);
+  const col = tables.get('col')?.rows[0]?.values ?? [];
+  const models = parseJsonColumn(col[9] ?? null);
+  const decks = parseJsonColumn(col[10] ?? null);
+  const deckOfNote = new Map<number, number>();
+  (tables.get('cards')?.rows ?? []).forEach(({ values }) => {
+    const nid = Number(values[1]);
+    if (!deckOfNote.has(nid) || values[3] === 0) deckOfNote.set(nid, Number(values[2]));
+  });
+
+  const notes = tables.get('notes')?.rows ?? [];
+  const modelCounts = new Map<string, number>();
+  notes.forEach(({ values }) => modelCounts.set(String(values[2]), (modelCounts.get(String(values[2])) || 0) + 1));
+  const mainModel = [...modelCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const fieldNames = modelFieldNames(models[mainModel ?? '']);
+
+  const rows = notes.map(({ values }) => String(values[6] ?? '').split(FIELD_SEPARATOR).map(htmlToText));
+  const width = rows.reduce((max, r) => Math.max(max, r.length), fieldNames.length);
+  return {
+    columns: Array.from({ length: width }, (_, i) => fieldNames[i] || `フィールド${i + 1}`),
+    rows,
+    groups: notes.map(({ rowid }) => String(asRecord(decks[String(deckOfNote.get(rowid))]).name ?? ''))
+  };
+}
+
+async function checksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+}
+
+/**
+ * Builds an `.apkg` for one deck. Cards the user has reviewed carry their SM-2
+ * state over as Anki review cards (interval, ease, due date, lapses); the rest
+ * arrive as new cards in deck order.
+ */
+export async function buildApkg(
+  deck: Deck,
+  reviewStates: Record<string, CardReviewState> = {},
+  now: Date = new Date()
+): Promise<Uint8Array<ArrayBuffer>> {
+  const nowMs = now.getTime();
+  const nowS = Math.floor(nowMs / 1000);
+  const modelId = nowMs;
+  const deckId = nowMs + 1;
+  const states = deck.cards.map(c => reviewStates[reviewKey(deck.name, c.id)]);
+
+  // Review due dates are stored as days since the collection was created
+  const earliest = Math.min(nowMs, ...states.filter(Boolean).map(s => new Date(s!.dueDate).getTime()));
+  const created = new Date(earliest);
+  created.setHours(0, 0, 0, 0);
+  const crt = Math.floor(created.getTime() / 1000);
+
+  const models = {
+    [modelId]: {
+      id: modelId, name: `JEC単GO! ${deck.name}`, type: 0, mod: nowS, usn: -1, sortf: 0, did: deckId,
+      tmpls: [{
+        name: 'Card 1', ord: 0, qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{Back}}{{#Notes}}<br><small>{{Notes}}</small>{{/Notes}}',
+        bqfmt: '', bafmt: '', did: null, bfont: '', bsize: 0
+      }],
+      flds: ['Front', 'Back', 'Notes'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: CARD_CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      latexsvg: false,
+      req: [[0, 'any', [0]]],
+      tags: [],
+      vers: []
+    }
+  };
+  const deckEntry = (id: number, name: string) => ({
+    id, name, mod: nowS, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+    extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+  });
+  const decks = { 1: deckEntry(1, 'Default'), [deckId]: deckEntry(deckId, deck.name) };
+  const dconf = {
+    1: {
+      id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+      rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 }
+    }
+  };
+  const conf = {
+    activeDecks: [deckId], curDeck: deckId, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+    dueCounts: true, curModel: modelId, nextPos: deck.cards.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true
+  };
+
+  const notes: SqlRow[] = [];
+  const cards: SqlRow[] = [];
+  for (let i = 0; i < deck.cards.length; i++) {
+    const card = deck.cards[i];
+    const state = states[i];
+    const id = nowMs + 10 + i;
+    notes.push({
+      rowid: id,
+      values: [
+        null, `${deck.name}::${card.id}`, modelId, nowS, -1, '',
+        [card.front, card.back, card.notes || ''].map(textToHtml).join(FIELD_SEPARATOR),
+        card.front, await checksum(card.front), 0, ''
+      ]
+    });
+    const reviewed = !!state && !!state.lastReviewed;
+    const due = reviewed
+      ? Math.round((new Date(state.dueDate).getTime() / 1000 - crt) / DAY_S)
+      : i + 1;
+    cards.push({
+      rowid: id,
+      values: [
+        null, id, deckId, 0, nowS, -1,
+        reviewed ? 2 : 0, reviewed ? 2 : 0, due,
+        reviewed ? Math.max(1, state.interval) : 0,
+        reviewed ? Math.round(state.easeFactor * 1000) : 0,
+        reviewed ? state.repetitions + state.lapses : 0,
+        reviewed ? state.lapses : 0,
+        0, 0, 0, 0, ''
+      ]
+    });
+  }
+
+  const database = writeSqliteDatabase([
+    {
+      name: 'col', sql: SCHEMA.col,
+      rows: [{ rowid: 1, values: [null, crt, nowMs, nowMs, 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(dconf), '{}'] }]
+    },
+    { name: 'notes', sql: SCHEMA.notes, rows: notes },
+    { name: 'cards', sql: SCHEMA.cards, rows: cards },
+    { name: 'revlog', sql: SCHEMA.revlog, rows: [] },
+    { name: 'graves', sql: SCHEMA.graves, rows: [] }
+  ]);
+
+  return writeZip([
+    { name: 'collection.anki2', data: database },
+    { name: 'media', data: new TextEncoder().encode('{}') }
+  ]);
+}
@@ -0,0 +1,104 @@
+export type AnswerVerdict = 'correct' | 'close' | 'wrong';
+
+export interface AnswerCheck {
+  verdict: AnswerVerdict;
+  expected: string; // The accepted spelling closest to the input
+  distance: number;
+}
+
+const ARTICLES = /^(a|an|the)\s+/;
+
+/**
+ * Case, width, punctuation, spacing and a leading article never decide an answer.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .replace(/[-\s]+/g, ' ')
+    .trim()
+    .replace(ARTICLES, '');
+}
+
+/**
+ * Alternatives in a card's front, e.g. "color / colour" or "big; large".
+ * Parenthesized parts such as "(to) run" are optional.
+ */
+export function acceptedAnswers(front: string): string[] {
+  return front
+    .split(/[\/;]/)
+    .flatMap(part => {
+      const full = part.replace(/[()]/g, '');
+      const short = part.replace(/\([^)]*\)/g, '');
+      return [full, short];
+    })
+    .map(normalizeAnswer)
+    .filter((answer, i, all) => answer && all.indexOf(answer) === i);
+}
+
+/**
+ * Damerau–Levenshtein distance (optimal string alignment), so a swapped pair of letters counts once.
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Typos tolerated for a word of this length: none for short words, where one
+ * letter usually makes a different word, then one, then two.
+ */
+function typoAllowance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+export function checkTypedAnswer(input: string, front: string): AnswerCheck {
+  const typed = normalizeAnswer(input);
+  const answers = acceptedAnswers(front);
+  if (answers.length === 0) return { verdict: 'wrong', expected: front, distance: typed.length };
+
+  let best = { answer: answers[0], distance: Infinity };
+  answers.forEach(answer => {
+    const distance = editDistance(typed, answer);
+    if (distance < best.distance) best = { answer, distance };
+  });
+
+  const verdict: AnswerVerdict = best.distance === 0
+    ? 'correct'
+    : typed && best.distance <= typoAllowance(best.answer.length) ? 'close' : 'wrong';
+  return { verdict, expected: best.answer, distance: best.distance };
+}
+
+/**
+ * The answer with its first `revealed` letters shown and the rest masked;
+ * spaces, hyphens and apostrophes stay visible so the shape of the answer shows.
+ */
+export function buildHint(front: string, revealed: number): string {
+  const answer = front.split(/[\/;]/)[0].replace(/\([^)]*\)/g, '').trim();
+  let shown = 0;
+  return Array.from(answer)
+    .map(char => {
+      if (!/[\p{L}\p{N}]/u.test(char)) return char;
+      shown += 1;
+      return shown <= revealed ? char : '_';
+    })
+    .join('');
+}
+
+export function countHintLetters(front: string): number {
+  return (buildHint(front, 0).match(/_/g) || []).length;
+}
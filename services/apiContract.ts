@@ -0,0 +1,447 @@
+import { Assignment, CardDirection, CardReviewState, ClassGroup, ConfusionRecord, Deck, Exam, ExamAnswer, ExamQuestionType, ExamResult, Flashcard, ReviewEvent, ReviewEventResult, SessionMode, StudentProgress, StudyDirection, UserRole } from '../types';
+import { PasswordParams } from './password';
+import { parseTags } from './cardFields';
+
+export type ApiErrorKind = 'network' | 'auth' | 'conflict' | 'malformed' | 'quota' | 'server';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+export interface FullData {
+  decks: Deck[];
+  progress: StudentProgress[];
+  reviews?: CardReviewState[];
+  confusions?: ConfusionRecord[];
+  reviewEvents?: ReviewEvent[];
+  classes?: ClassGroup[];
+  assignments?: Assignment[];
+  exams?: Exam[];
+  examResults?: ExamResult[];
+}
+
+export interface LoginData {
+  token: string;
+  studentName?: string;
+  email?: string;
+  role: UserRole;
+  upgradePassword?: boolean; // Signed in with the legacy proof; the client should send a PBKDF2 credential
+}
+
+export function ok<T>(data: T): ApiResult<T> {
+  return { ok: true, data };
+}
+
+export function fail<T = never>(kind: ApiErrorKind, message: string, status?: number): ApiResult<T> {
+  return { ok: false, error: { kind, message, status } };
+}
+
+/**
+ * User-facing messages for each error kind. `context` picks wording for the form that failed.
+ */
+export function describeApiError(error: ApiError, context: 'data' | 'login' | 'register' | 'reset' | 'account' | 'deck' | 'exam' = 'data'): string {
+  switch (error.kind) {
+    case 'network':
+      return '接続エラーが発生しました。ネットワーク環境を確認してください。';
+    case 'auth':
+      if (context === 'reset') return '確認コードが正しくないか、有効期限が切れています。';
+      if (context === 'account') return '現在のパスワードが正しくありません。';
+      return context === 'data'
+        ? '認証に失敗しました。もう一度ログインしてください。'
+        : 'ユーザーIDまたはパスワードが正しくありません。';
+    case 'conflict':
+      if (context === 'exam') return 'この試験は既に提出済みです。';
+      return context === 'deck'
+        ? '同じ名前の単語帳が既にあります。'
+        : 'このユーザーIDは既に使用されています。';
+    case 'malformed':
+      return `スプレッドシートの形式が正しくありません（${error.message}）。シート名と列の構成を確認してください。`;
+    case 'quota':
+      return 'Apps Scriptの実行回数の上限に達しました。しばらく待ってから再度お試しください。';
+    case 'server':
+    default:
+      return context === 'register'
+        ? '登録に失敗しました。もう一度お試しください。'
+        : 'サーバーエラーが発生しました。Apps Scriptの「公開設定」を確認してください。';
+  }
+}
+
+const QUOTA_PATTERN = /too many times|quota|exceeded maximum|rate limit/i;
+
+/**
+ * Classifies a non-success HTTP status or an Apps Script error page.
+ */
+export function classifyFailure(status: number, body: string = ''): ApiError {
+  if (status === 429 || QUOTA_PATTERN.test(body)) return { kind: 'quota', message: 'Quota exceeded', status };
+  if (status === 401 || status === 403) return { kind: 'auth', message: `HTTP ${status}`, status };
+  return { kind: 'server', message: `HTTP ${status}`, status };
+}
+
+// --- Schema validation -------------------------------------------------------
+
+class SchemaError extends Error {}
+
+type Obj = Record<string, unknown>;
+
+function asObject(value: unknown, path: string): Obj {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(`${path}: object expected`);
+  return value as Obj;
+}
+
+function asArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new SchemaError(`${path}: array expected`);
+  return value;
+}
+
+// Sheet cells holding digits arrive as numbers, so text fields accept both.
+function asText(value: unknown, path: string): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  throw new SchemaError(`${path}: text expected`);
+}
+
+function asOptionalText(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : asText(value, path);
+}
+
+function asNumber(value: unknown, path: string): number {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) throw new SchemaError(`${path}: number expected`);
+  return n;
+}
+
+function asOptionalNumber(value: unknown, path: string): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : asNumber(value, path);
+}
+
+function asMode(value: unknown, path: string): SessionMode {
+  const mode = asText(value, path) as SessionMode;
+  if (!Object.values(SessionMode).includes(mode)) throw new SchemaError(`${path}: unknown mode`);
+  return mode;
+}
+
+const STUDY_DIRECTIONS: StudyDirection[] = ['enToJa', 'jaToEn', 'mixed'];
+
+// Blank cells come from rows written before study directions existed
+function asOptionalDirection(value: unknown, path: string): StudyDirection | undefined {
+  const direction = asOptionalText(value, path) as StudyDirection | undefined;
+  if (direction !== undefined && !STUDY_DIRECTIONS.includes(direction)) throw new SchemaError(`${path}: unknown direction`);
+  return direction;
+}
+
+// Like class members, tags arrive as an array or as the sheet's comma-separated cell
+function asOptionalTags(value: unknown, path: string): string[] | undefined {
+  const tags = Array.isArray(value)
+    ? parseTags(value.map((t, i) => asText(t, `${path}[${i}]`)).join(','))
+    : parseTags(asOptionalText(value, path));
+  return tags.length > 0 ? tags : undefined;
+}
+
+// Decks from sheets without the detail columns simply leave those fields out
+function parseCard(value: unknown, path: string): Flashcard {
+  const o = asObject(value, path);
+  return {
+    id: asText(o.id, `${path}.id`),
+    front: asText(o.front, `${path}.front`),
+    back: asText(o.back, `${path}.back`),
+    notes: asOptionalText(o.notes, `${path}.notes`),
+    example: asOptionalText(o.example, `${path}.example`),
+    exampleTranslation: asOptionalText(o.exampleTranslation, `${path}.exampleTranslation`),
+    partOfSpeech: asOptionalText(o.partOfSpeech, `${path}.partOfSpeech`),
+    ipa: asOptionalText(o.ipa, `${path}.ipa`),
+    furigana: asOptionalText(o.furigana, `${path}.furigana`),
+    imageUrl: asOptionalText(o.imageUrl, `${path}.imageUrl`),
+    tags: asOptionalTags(o.tags, `${path}.tags`),
+    masteryScore: asOptionalNumber(o.masteryScore, `${path}.masteryScore`) ?? 0
+  };
+}
+
+function parseDeck(value: unknown, path: string): Deck {
+  const o = asObject(value, path);
+  const name = asText(o.name, `${path}.name`);
+  return {
+    id: asText(o.id ?? name, `${path}.id`),
+    name,
+    cards: asArray(o.cards, `${path}.cards`).map((c, i) => parseCard(c, `${name}[${i + 2}]`))
+  };
+}
+
+export function parseProgressRow(value: unknown, path: string = 'progress'): StudentProgress {
+  const o = asObject(value, path);
+  return {
+    username: asText(o.username, `${path}.username`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    masteryPercentage: asNumber(o.masteryPercentage, `${path}.masteryPercentage`),
+    lastAttempted: asText(o.lastAttempted, `${path}.lastAttempted`),
+    cardsMastered: asNumber(o.cardsMastered, `${path}.cardsMastered`),
+    totalCards: asNumber(o.totalCards, `${path}.totalCards`),
+    memoryTime: asOptionalNumber(o.memoryTime, `${path}.memoryTime`),
+    sessionId: asOptionalText(o.sessionId, `${path}.sessionId`),
+    mode: o.mode === undefined || o.mode === '' ? undefined : asMode(o.mode, `${path}.mode`),
+    direction: asOptionalDirection(o.direction, `${path}.direction`)
+  };
+}
+
+function parseCardDirection(value: unknown, path: string): CardDirection | undefined {
+  const direction = asOptionalDirection(value, path);
+  if (direction === 'mixed') throw new SchemaError(`${path}: a review has a single direction`);
+  return direction;
+}
+
+function parseReview(value: unknown, path: string): CardReviewState {
+  const o = asObject(value, path);
+  return {
+    username: asText(o.username, `${path}.username`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    cardId: asText(o.cardId, `${path}.cardId`),
+    direction: parseCardDirection(o.direction, `${path}.direction`),
+    easeFactor: asNumber(o.easeFactor, `${path}.easeFactor`),
+    interval: asNumber(o.interval, `${path}.interval`),
+    repetitions: asNumber(o.repetitions, `${path}.repetitions`),
+    lapses: asNumber(o.lapses, `${path}.lapses`),
+    dueDate: asText(o.dueDate, `${path}.dueDate`),
+    lastReviewed: asOptionalText(o.lastReviewed, `${path}.lastReviewed`) ?? ''
+  };
+}
+
+function parseConfusion(value: unknown, path: string): ConfusionRecord {
+  const o = asObject(value, path);
+  return {
+    username: asText(o.username, `${path}.username`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    cardId: asText(o.cardId, `${path}.cardId`),
+    chosenCardId: asText(o.chosenCardId, `${path}.chosenCardId`),
+    mode: asMode(o.mode, `${path}.mode`),
+    direction: parseCardDirection(o.direction, `${path}.direction`) ?? 'enToJa',
+    answeredAt: asText(o.answeredAt, `${path}.answeredAt`),
+    sessionId: asOptionalText(o.sessionId, `${path}.sessionId`)
+  };
+}
+
+const EVENT_RESULTS: ReviewEventResult[] = ['correct', 'wrong', 'mastered'];
+
+function parseReviewEvent(value: unknown, path: string): ReviewEvent {
+  const o = asObject(value, path);
+  const result = asText(o.result, `${path}.result`) as ReviewEventResult;
+  if (!EVENT_RESULTS.includes(result)) throw new SchemaError(`${path}.result: unknown result`);
+  return {
+    username: asText(o.username, `${path}.username`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    cardId: asText(o.cardId, `${path}.cardId`),
+    mode: asMode(o.mode, `${path}.mode`),
+    direction: parseCardDirection(o.direction, `${path}.direction`),
+    result,
+    latencyMs: asNumber(o.latencyMs, `${path}.latencyMs`),
+    answeredAt: asText(o.answeredAt, `${path}.answeredAt`),
+    sessionId: asOptionalText(o.sessionId, `${path}.sessionId`)
+  };
+}
+
+function parseClass(value: unknown, path: string): ClassGroup {
+  const o = asObject(value, path);
+  // The sheet stores members as one comma-separated cell
+  const members = Array.isArray(o.members)
+    ? o.members.map((m, i) => asText(m, `${path}.members[${i}]`))
+    : asText(o.members ?? '', `${path}.members`).split(',').map(m => m.trim()).filter(Boolean);
+  return {
+    id: asText(o.id, `${path}.id`),
+    name: asText(o.name, `${path}.name`),
+    teacher: asText(o.teacher, `${path}.teacher`),
+    members
+  };
+}
+
+function parseAssignment(value: unknown, path: string): Assignment {
+  const o = asObject(value, path);
+  return {
+    id: asText(o.id, `${path}.id`),
+    classId: asText(o.classId, `${path}.classId`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    mode: asMode(o.mode, `${path}.mode`),
+    targetMastery: asNumber(o.targetMastery, `${path}.targetMastery`),
+    dueDate: asText(o.dueDate, `${path}.dueDate`),
+    createdBy: asText(o.createdBy, `${path}.createdBy`),
+    createdAt: asText(o.createdAt, `${path}.createdAt`)
+  };
+}
+
+const EXAM_QUESTION_TYPES: ExamQuestionType[] = ['choice', 'typing', 'listening'];
+
+function asQuestionType(value: unknown, path: string): ExamQuestionType {
+  const type = asText(value, path).trim() as ExamQuestionType;
+  if (!EXAM_QUESTION_TYPES.includes(type)) throw new SchemaError(`${path}: unknown question type`);
+  return type;
+}
+
+function parseExam(value: unknown, path: string): Exam {
+  const o = asObject(value, path);
+  // The sheet stores question types as one comma-separated cell
+  const questionTypes = Array.isArray(o.questionTypes)
+    ? o.questionTypes.map((t, i) => asQuestionType(t, `${path}.questionTypes[${i}]`))
+    : asText(o.questionTypes, `${path}.questionTypes`).split(',').filter(t => t.trim()).map(t => asQuestionType(t, `${path}.questionTypes`));
+  return {
+    id: asText(o.id, `${path}.id`),
+    classId: asText(o.classId, `${path}.classId`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    title: asText(o.title, `${path}.title`),
+    questionCount: asNumber(o.questionCount, `${path}.questionCount`),
+    timeLimitMinutes: asNumber(o.timeLimitMinutes, `${path}.timeLimitMinutes`),
+    questionTypes,
+    direction: asOptionalDirection(o.direction, `${path}.direction`) ?? 'enToJa',
+    seed: asText(o.seed, `${path}.seed`),
+    dueDate: asText(o.dueDate, `${path}.dueDate`),
+    createdBy: asText(o.createdBy, `${path}.createdBy`),
+    createdAt: asText(o.createdAt, `${path}.createdAt`)
+  };
+}
+
+function parseExamAnswer(value: unknown, path: string): ExamAnswer {
+  const o = asObject(value, path);
+  return {
+    cardId: asText(o.cardId, `${path}.cardId`),
+    type: asQuestionType(o.type, `${path}.type`),
+    response: asText(o.response ?? '', `${path}.response`),
+    correct: o.correct === true || o.correct === 'TRUE' || o.correct === 'true'
+  };
+}
+
+function parseExamResult(value: unknown, path: string): ExamResult {
+  const o = asObject(value, path);
+  // The sheet stores the answers as one JSON cell
+  const answers = typeof o.answers === 'string' ? parseJson(o.answers) : o.answers;
+  return {
+    id: asText(o.id, `${path}.id`),
+    examId: asText(o.examId, `${path}.examId`),
+    username: asText(o.username, `${path}.username`),
+    deckName: asText(o.deckName, `${path}.deckName`),
+    score: asNumber(o.score, `${path}.score`),
+    total: asNumber(o.total, `${path}.total`),
+    answers: asArray(answers ?? [], `${path}.answers`).map((a, i) => parseExamAnswer(a, `${path}.answers[${i}]`)),
+    startedAt: asText(o.startedAt, `${path}.startedAt`),
+    submittedAt: asText(o.submittedAt, `${path}.submittedAt`),
+    timedOut: o.timedOut === true || o.timedOut === 'TRUE' || o.timedOut === 'true'
+  };
+}
+
+function validate<T>(parse: () => T): ApiResult<T> {
+  try {
+    return ok(parse());
+  } catch (e) {
+    if (e instanceof SchemaError) return fail('malformed', e.message);
+    throw e;
+  }
+}
+
+export function parseFullData(raw: unknown): ApiResult<FullData> {
+  return validate(() => {
+    const o = asObject(raw, 'response');
+    if (typeof o.error === 'string') throw new SchemaError(o.error);
+    return {
+      decks: asArray(o.decks ?? [], 'decks').map((d, i) => parseDeck(d, `decks[${i}]`)),
+      progress: asArray(o.progress ?? [], 'progress').map((p, i) => parseProgressRow(p, `progress[${i}]`)),
+      reviews: asArray(o.reviews ?? [], 'reviews').map((r, i) => parseReview(r, `reviews[${i}]`)),
+      confusions: asArray(o.confusions ?? [], 'confusions').map((c, i) => parseConfusion(c, `confusions[${i}]`)),
+      reviewEvents: asArray(o.events ?? [], 'events').map((e, i) => parseReviewEvent(e, `events[${i}]`)),
+      classes: asArray(o.classes ?? [], 'classes').map((c, i) => parseClass(c, `classes[${i}]`)),
+      assignments: asArray(o.assignments ?? [], 'assignments').map((a, i) => parseAssignment(a, `assignments[${i}]`)),
+      exams: asArray(o.exams ?? [], 'exams').map((e, i) => parseExam(e, `exams[${i}]`)),
+      examResults: asArray(o.examResults ?? [], 'examResults').map((r, i) => parseExamResult(r, `examResults[${i}]`))
+    };
+  });
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Login replies with JSON `{ status, token, studentName, email, role, upgrade }`. A success
+ * without a signed token is rejected rather than trusted.
+ */
+export function parseLoginResponse(text: string): ApiResult<LoginData> {
+  const json = parseJson(text);
+  if (json && typeof json === 'object') {
+    const o = json as Obj;
+    if (o.status === 'SUCCESS') {
+      return validate(() => ({
+        token: asText(o.token, 'token'),
+        studentName: asOptionalText(o.studentName, 'studentName'),
+        email: asOptionalText(o.email, 'email'),
+        role: o.role === 'teacher' ? 'teacher' : 'student',
+        upgradePassword: o.upgrade === true
+      }));
+    }
+    return statusFailure(String(o.status ?? ''), 'Invalid credentials');
+  }
+  return statusFailure(text, 'Invalid credentials');
+}
+
+export function parseTokenResponse(text: string): ApiResult<string> {
+  const json = parseJson(text);
+  if (json && typeof json === 'object' && (json as Obj).status === 'SUCCESS') {
+    return validate(() => asText((json as Obj).token, 'token'));
+  }
+  return statusFailure(text, 'Session expired');
+}
+
+/**
+ * `{ salt, iterations }`; a `scheme` field from older backends is ignored.
+ */
+export function parsePasswordParams(text: string): ApiResult<PasswordParams> {
+  const json = parseJson(text);
+  if (!json || typeof json !== 'object') return statusFailure(text, 'Password parameters unavailable', 'server');
+  return validate((): PasswordParams => {
+    const o = json as Obj;
+    return { salt: asText(o.salt, 'salt'), iterations: asNumber(o.iterations, 'iterations') };
+  });
+}
+
+/**
+ * The status token of a write reply: the whole trimmed body, or `status` of a JSON body.
+ */
+function replyStatus(text: string): string {
+  const json = parseJson(text);
+  if (json && typeof json === 'object' && typeof (json as Obj).status === 'string') return (json as Obj).status as string;
+  return text.trim();
+}
+
+export function parseRegisterResponse(text: string): ApiResult<void> {
+  const status = replyStatus(text);
+  if (status === 'SUCCESS') return ok(undefined);
+  if (status === 'EXISTS') return fail('conflict', 'Username already exists');
+  return unexpectedReply(text, 'Registration rejected');
+}
+
+export function parseSaveResponse(text: string): ApiResult<void> {
+  const status = replyStatus(text);
+  if (status === 'SUCCESS' || status === 'DUPLICATE') return ok(undefined);
+  if (status === 'UNAUTHORIZED') return fail('auth', 'Session rejected');
+  if (status === 'EXISTS') return fail('conflict', 'Already exists');
+  return unexpectedReply(text, 'Save rejected');
+}
+
+/**
+ * A write reply without a known status token is never taken as success: quota and
+ * error pages keep their kinds, an empty or unrecognised body is malformed.
+ */
+function unexpectedReply<T>(text: string, message: string): ApiResult<T> {
+  if (text.trim() === '') return fail('malformed', 'Empty response');
+  if (QUOTA_PATTERN.test(text) || /ERROR|<html/i.test(text)) return statusFailure(text, message, 'server');
+  return fail('malformed', `Unexpected response: ${text.trim().slice(0, 40)}`);
+}
+
+function statusFailure<T>(status: string, message: string, fallback: ApiErrorKind = 'auth'): ApiResult<T> {
+  if (QUOTA_PATTERN.test(status)) return fail('quota', 'Quota exceeded');
+  if (/ERROR|<html/i.test(status)) return fail('server', message);
+  return fail(fallback, message);
+}
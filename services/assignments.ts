@@ -0,0 +1,87 @@
+import { Assignment, ClassGroup, SessionMode, StudentProgress } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AssignmentStatus {
+  completed: boolean;
+  completedAt?: string;
+  bestMastery: number;
+  overdue: boolean;
+  msRemaining: number;
+}
+
+export function getClassesForStudent(username: string, classes: ClassGroup[]): ClassGroup[] {
+  return classes.filter(c => c.members.includes(username));
+}
+
+export function getAssignmentsForStudent(username: string, classes: ClassGroup[], assignments: Assignment[]): Assignment[] {
+  const classIds = new Set(getClassesForStudent(username, classes).map(c => c.id));
+  return assignments
+    .filter(a => classIds.has(a.classId))
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+}
+
+/**
+ * An assignment is complete once one session in the required mode, started after the
+ * assignment was created, reaches the target. Memory sessions only need to be finished.
+ * Rows saved before modes were recorded count for any mode.
+ */
+export function getAssignmentStatus(
+  assignment: Assignment,
+  progress: StudentProgress[],
+  username: string,
+  now: number = Date.now()
+): AssignmentStatus {
+  const created = new Date(assignment.createdAt).getTime();
+  const attempts = progress
+    .filter(p =>
+      p.username === username &&
+      p.deckName === assignment.deckName &&
+      (!p.mode || p.mode === assignment.mode) &&
+      new Date(p.lastAttempted).getTime() >= created
+    )
+    .sort((a, b) => new Date(a.lastAttempted).getTime() - new Date(b.lastAttempted).getTime());
+
+  const passing = attempts.find(p =>
+    assignment.mode === SessionMode.MEMORY || p.masteryPercentage >= assignment.targetMastery
+  );
+  const due = new Date(assignment.dueDate).getTime();
+
+  return {
+    completed: !!passing,
+    completedAt: passing?.lastAttempted,
+    bestMastery: attempts.reduce((best, p) => Math.max(best, p.masteryPercentage), 0),
+    overdue: !passing && due < now,
+    msRemaining: due - now
+  };
+}
+
+export function formatCountdown(msRemaining: number): string {
+  if (msRemaining < 0) {
+    const days = Math.floor(-msRemaining / DAY_MS);
+    return days > 0 ? `${days}日超過` : '期限切れ';
+  }
+  if (msRemaining < HOUR_MS) return 'まもなく締切';
+  if (msRemaining < DAY_MS) return `あと${Math.floor(msRemaining / HOUR_MS)}時間`;
+  return `あと${Math.floor(msRemaining / DAY_MS)}日`;
+}
+
+export interface AssignmentCompletion {
+  username: string;
+  status: AssignmentStatus;
+}
+
+/**
+ * Per-student completion for the teacher view.
+ */
+export function getAssignmentCompletion(
+  assignment: Assignment,
+  classes: ClassGroup[],
+  progress: StudentProgress[],
+  now: number = Date.now()
+): AssignmentCompletion[] {
+  const group = classes.find(c => c.id === assignment.classId);
+  if (!group) return [];
+  return group.members.map(username => ({ username, status: getAssignmentStatus(assignment, progress, username, now) }));
+}
@@ -1,5 +1,14 @@
 
 import { GoogleGenAI, Modality } from "@google/genai";
+import {
+  DEFAULT_TTS_SETTINGS, GEMINI_VOICES, MIN_TTS_RATE, SLOW_REPEAT_FACTOR, TTS_ACCENTS, TtsProviderId, TtsSettings
+} from "./ttsSettings";
+import { clipKey, findCachedKeys, getCachedClip, putCachedClip } from "./audioCache";
+
+export interface TtsProvider {
+  /** Plays the text and resolves once playback has finished. */
+  speak(text: string, settings: TtsSettings): Promise<void>;
+}
 
 const audioCache: Record<string, AudioBuffer> = {};
 let audioContext: AudioContext | null = null;
@@ -22,30 +31,48 @@ function decodeBase64(base64: string): Uint8Array {
 }
 
 /**
- * Native Fallback: Browser Web Speech API.
- * Guarantees playback in any environment even without an API key.
+ * English voices for an accent, best match first.
  */
-function playNativeFallback(text: string) {
-  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
-    console.error("[TTS] Web Speech API not supported in this browser.");
-    return;
-  }
-  
-  // Clean up previous speech to avoid queueing
-  window.speechSynthesis.cancel();
-  
-  const utterance = new SpeechSynthesisUtterance(text);
-  utterance.lang = 'en-US';
-  utterance.rate = 1.0;
-  
-  // Optional: find a specific English voice if available
-  const voices = window.speechSynthesis.getVoices();
-  const enVoice = voices.find(v => v.lang.startsWith('en'));
-  if (enVoice) utterance.voice = enVoice;
-  
-  window.speechSynthesis.speak(utterance);
+export function listSpeechVoices(lang: string): SpeechSynthesisVoice[] {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return [];
+  const voices = window.speechSynthesis.getVoices().filter(v => v.lang.startsWith('en'));
+  const normalized = lang.toLowerCase();
+  return voices.sort((a, b) =>
+    Number(b.lang.replace('_', '-').toLowerCase() === normalized) - Number(a.lang.replace('_', '-').toLowerCase() === normalized)
+  );
 }
 
+/**
+ * Browser Web Speech API.
+ * Works in any environment even without an API key, which also makes it the fallback.
+ */
+const webSpeechProvider: TtsProvider = {
+  speak(text, settings) {
+    return new Promise<void>((resolve, reject) => {
+      if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+        reject(new Error("Web Speech API not supported in this browser."));
+        return;
+      }
+
+      // Clean up previous speech to avoid queueing
+      window.speechSynthesis.cancel();
+
+      const lang = TTS_ACCENTS[settings.accent].lang;
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = settings.rate;
+
+      const voices = listSpeechVoices(lang);
+      const voice = voices.find(v => v.name === settings.voice) || voices[0];
+      if (voice) utterance.voice = voice;
+
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => e.error === 'interrupted' || e.error === 'canceled' ? resolve() : reject(new Error(e.error));
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+};
+
 /**
  * PCM Decoding for Gemini 2.5 TTS (Mono, 24kHz).
  */
@@ -66,72 +93,219 @@ async function decodePCM(
   return buffer;
 }
 
+function getAudioContext(): AudioContext {
+  // Must be created within a user gesture
+  if (!audioContext) {
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    audioContext = new AudioContextClass({ sampleRate: 24000 });
+  }
+
+  // Type guard for TypeScript
+  if (!audioContext) {
+    throw new Error("Failed to initialize AudioContext");
+  }
+  return audioContext;
+}
+
 /**
- * Main TTS logic with robust fallback mechanism.
+ * Plays a buffer and resolves when it ends. The playback rate also shifts the pitch.
  */
-export async function playTextToSpeech(text: string): Promise<void> {
-  try {
-    // 1. Initialize AudioContext (must be within user gesture)
-    let ctx = audioContext;
-    if (!ctx) {
-      const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
-      ctx = new AudioContextClass({ sampleRate: 24000 });
-      audioContext = ctx;
-    }
+function playBuffer(ctx: AudioContext, buffer: AudioBuffer, rate: number): Promise<void> {
+  return new Promise(resolve => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(ctx.destination);
+    source.onended = () => resolve();
+    source.start(0);
+  });
+}
 
-    // Type guard for TypeScript
-    if (!ctx) {
-      throw new Error("Failed to initialize AudioContext");
-    }
+function geminiVoice(settings: TtsSettings): string {
+  return GEMINI_VOICES.includes(settings.voice) ? settings.voice : DEFAULT_TTS_SETTINGS.voice;
+}
+
+/**
+ * Raw 24kHz PCM from Gemini 2.5 TTS. The accent is asked for in the prompt.
+ */
+async function generateGeminiPcm(text: string, voice: string, accent: TtsSettings['accent']): Promise<ArrayBuffer> {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey || apiKey === 'undefined' || apiKey === '') {
+    throw new Error("API Key is missing - checking fallback...");
+  }
+
+  const prompt = accent === 'us' ? text : `Say in a ${TTS_ACCENTS[accent].description} accent: ${text}`;
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voice },
+        },
+      },
+    },
+  });
+
+  const base64Data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Data) throw new Error("No audio payload in Gemini response");
+  const bytes = decodeBase64(base64Data);
+  if (bytes.byteLength === 0) throw new Error("Empty audio payload in Gemini response");
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
 
+/**
+ * Gemini audio from the persistent cache, generating and storing it on a miss.
+ */
+async function loadGeminiPcm(text: string, settings: TtsSettings): Promise<ArrayBuffer> {
+  const voice = geminiVoice(settings);
+  const key = clipKey('gemini', voice, settings.accent, text);
+  const cached = await getCachedClip(key);
+  if (cached) return cached;
+  const pcm = await generateGeminiPcm(text, voice, settings.accent);
+  await putCachedClip(key, pcm);
+  return pcm;
+}
+
+/**
+ * Gemini 2.5 TTS, decoded once per session and stored across reloads.
+ */
+const geminiProvider: TtsProvider = {
+  async speak(text, settings) {
+    const ctx = getAudioContext();
     if (ctx.state === 'suspended') {
       await ctx.resume();
     }
 
-    // 2. Check Cache
-    if (audioCache[text]) {
-      const source = ctx.createBufferSource();
-      source.buffer = audioCache[text];
-      source.connect(ctx.destination);
-      source.start(0);
-      return;
+    const key = clipKey('gemini', geminiVoice(settings), settings.accent, text);
+    if (!audioCache[key]) {
+      audioCache[key] = await decodePCM(new Uint8Array(await loadGeminiPcm(text, settings)), ctx, 24000);
     }
+    await playBuffer(ctx, audioCache[key], settings.rate);
+  }
+};
+
+export interface PregenerateProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+const PREGENERATE_CONCURRENCY = 3;
+
+/**
+ * Generates and stores Gemini audio for every text that is not cached yet, a
+ * few requests at a time. Failures are counted rather than thrown so one bad
+ * word does not stop the download.
+ */
+export async function pregenerateAudio(
+  texts: string[],
+  onProgress: (progress: PregenerateProgress) => void,
+  settings: TtsSettings = activeSettings,
+  concurrency: number = PREGENERATE_CONCURRENCY
+): Promise<PregenerateProgress> {
+  const unique = Array.from(new Set(texts.filter(t => t.trim())));
+  const voice = geminiVoice(settings);
+  const cached = await findCachedKeys(unique.map(t => clipKey('gemini', voice, settings.accent, t)));
+  const pending = unique.filter(t => !cached.has(clipKey('gemini', voice, settings.accent, t)));
+  const progress: PregenerateProgress = { done: unique.length - pending.length, total: unique.length, failed: 0 };
+  onProgress({ ...progress });
 
-    // 3. Primary Path: Gemini AI TTS
-    const apiKey = process.env.API_KEY;
-    
-    if (!apiKey || apiKey === 'undefined' || apiKey === '') {
-       throw new Error("API Key is missing - checking fallback...");
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const text = pending[next++];
+      try {
+        await loadGeminiPcm(text, settings);
+        progress.done += 1;
+      } catch (e) {
+        console.warn(`[TTS] Could not pre-generate "${text}"`, e);
+        progress.failed += 1;
+      }
+      onProgress({ ...progress });
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return progress;
+}
 
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Puck' },
-          },
-        },
-      },
+/**
+ * Number of the texts whose Gemini audio is already stored for the current voice and accent.
+ */
+export async function countCachedAudio(texts: string[], settings: TtsSettings = activeSettings): Promise<number> {
+  const voice = geminiVoice(settings);
+  const unique = Array.from(new Set(texts.filter(t => t.trim())));
+  return (await findCachedKeys(unique.map(t => clipKey('gemini', voice, settings.accent, t)))).size;
+}
+
+/**
+ * Pre-recorded clips fetched from a URL template with {text} and {accent} placeholders.
+ */
+const recordedProvider: TtsProvider = {
+  speak(text, settings) {
+    return new Promise<void>((resolve, reject) => {
+      if (!settings.audioUrlTemplate.trim()) {
+        reject(new Error("No audio URL template configured"));
+        return;
+      }
+      const url = settings.audioUrlTemplate
+        .replace(/\{text\}/g, encodeURIComponent(text.trim().toLowerCase()))
+        .replace(/\{accent\}/g, settings.accent);
+      const audio = new Audio(url);
+      audio.playbackRate = settings.rate;
+      audio.onended = () => resolve();
+      audio.onerror = () => reject(new Error(`Could not load ${url}`));
+      audio.play().catch(reject);
     });
+  }
+};
 
-    const base64Data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Data) throw new Error("No audio payload in Gemini response");
+export const TTS_PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  gemini: geminiProvider,
+  webSpeech: webSpeechProvider,
+  recorded: recordedProvider
+};
 
-    const decoded = await decodePCM(decodeBase64(base64Data), ctx, 24000);
-    audioCache[text] = decoded;
+let activeSettings: TtsSettings = DEFAULT_TTS_SETTINGS;
 
-    const source = ctx.createBufferSource();
-    source.buffer = decoded;
-    source.connect(ctx.destination);
-    source.start(0);
+/**
+ * Settings used by every later playTextToSpeech call; set on login and when the user changes them.
+ */
+export function setTtsSettings(settings: TtsSettings): void {
+  activeSettings = settings;
+}
+
+export function getTtsSettings(): TtsSettings {
+  return activeSettings;
+}
 
+async function speakOnce(text: string, settings: TtsSettings): Promise<void> {
+  try {
+    await TTS_PROVIDERS[settings.provider].speak(text, settings);
   } catch (err: any) {
-    // 4. Secondary Path: Native Fallback
-    console.warn(`[TTS] AI voice failed (${err?.message}), falling back to browser speech synthesis.`);
-    playNativeFallback(text);
+    if (settings.provider === 'webSpeech') {
+      console.error("[TTS] Browser speech failed:", err);
+      return;
+    }
+    console.warn(`[TTS] ${settings.provider} voice failed (${err?.message}), falling back to browser speech synthesis.`);
+    try {
+      // The chosen voice name belongs to the failed provider
+      await webSpeechProvider.speak(text, { ...settings, voice: '' });
+    } catch (fallbackErr) {
+      console.error("[TTS] Browser speech failed:", fallbackErr);
+    }
+  }
+}
+
+/**
+ * Main TTS logic: the user's provider with browser speech as the fallback, then
+ * an optional slower repeat.
+ */
+export async function playTextToSpeech(text: string, settings: TtsSettings = activeSettings): Promise<void> {
+  await speakOnce(text, settings);
+  if (settings.slowRepeat) {
+    await speakOnce(text, { ...settings, rate: Math.max(MIN_TTS_RATE, settings.rate * SLOW_REPEAT_FACTOR) });
   }
 }
@@ -0,0 +1,138 @@
+const DB_NAME = 'lm_audio';
+const DB_VERSION = 1;
+const CLIPS = 'clips'; // key -> PCM bytes
+const META = 'meta'; // key -> size and last use, so eviction never loads the audio
+
+export const MAX_AUDIO_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface ClipMeta {
+  key: string;
+  bytes: number;
+  lastUsed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CLIPS);
+        request.result.createObjectStore(META, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function run<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return openDb().then(db => new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = action(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+/**
+ * Cache key of a generated clip. The playback rate is applied when playing, so
+ * one clip serves every speed.
+ */
+export function clipKey(provider: string, voice: string, accent: string, text: string): string {
+  return `${provider}|${voice}|${accent}|${text}`;
+}
+
+/**
+ * The stored PCM for a clip, or null. Reading a clip marks it as recently used.
+ */
+export async function getCachedClip(key: string): Promise<ArrayBuffer | null> {
+  try {
+    const pcm = await run<ArrayBuffer>([CLIPS], 'readonly', tx => tx.objectStore(CLIPS).get(key));
+    if (!pcm) return null;
+    run([META], 'readwrite', tx => { tx.objectStore(META).put({ key, bytes: pcm.byteLength, lastUsed: Date.now() }); }).catch(() => {});
+    return pcm;
+  } catch (e) {
+    console.warn("[AudioCache] Read failed", e);
+    return null;
+  }
+}
+
+export async function putCachedClip(key: string, pcm: ArrayBuffer): Promise<void> {
+  try {
+    await run([CLIPS, META], 'readwrite', tx => {
+      tx.objectStore(CLIPS).put(pcm, key);
+      tx.objectStore(META).put({ key, bytes: pcm.byteLength, lastUsed: Date.now() });
+    });
+    await evictAudioCache();
+  } catch (e) {
+    // Without storage the clip is simply generated again next time
+    console.warn("[AudioCache] Write failed", e);
+  }
+}
+
+/**
+ * Which of the keys already have a stored clip.
+ */
+export async function findCachedKeys(keys: string[]): Promise<Set<string>> {
+  try {
+    const stored = new Set(((await run<IDBValidKey[]>([META], 'readonly', tx => tx.objectStore(META).getAllKeys())) || []).map(String));
+    return new Set(keys.filter(k => stored.has(k)));
+  } catch (e) {
+    return new Set();
+  }
+}
+
+async function readMeta(): Promise<ClipMeta[]> {
+  return (await run<ClipMeta[]>([META], 'readonly', tx => tx.objectStore(META).getAll())) || [];
+}
+
+export async function getAudioCacheSize(): Promise<{ clips: number; bytes: number }> {
+  try {
+    const meta = await readMeta();
+    return { clips: meta.length, bytes: meta.reduce((sum, m) => sum + m.bytes, 0) };
+  } catch (e) {
+    return { clips: 0, bytes: 0 };
+  }
+}
+
+/**
+ * Deletes the least recently used clips until the cache fits the size limit.
+ */
+export async function evictAudioCache(maxBytes: number = MAX_AUDIO_CACHE_BYTES): Promise<void> {
+  const meta = await readMeta();
+  let total = meta.reduce((sum, m) => sum + m.bytes, 0);
+  if (total <= maxBytes) return;
+  const victims: string[] = [];
+  for (const clip of meta.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= maxBytes) break;
+    victims.push(clip.key);
+    total -= clip.bytes;
+  }
+  await run([CLIPS, META], 'readwrite', tx => {
+    victims.forEach(key => {
+      tx.objectStore(CLIPS).delete(key);
+      tx.objectStore(META).delete(key);
+    });
+  });
+}
+
+export async function clearAudioCache(): Promise<void> {
+  await run([CLIPS, META], 'readwrite', tx => {
+    tx.objectStore(CLIPS).clear();
+    tx.objectStore(META).clear();
+  });
+}
@@ -0,0 +1,75 @@
+import { Flashcard } from '../types';
+
+/**
+ * The optional card fields beyond front and back, in the order of the sheet columns
+ * after the card id (E onwards). Rows written before a column existed leave it blank.
+ */
+export const CARD_DETAIL_FIELDS = ['example', 'exampleTranslation', 'partOfSpeech', 'ipa', 'furigana', 'imageUrl', 'tags'] as const;
+
+export type CardDetailField = typeof CARD_DETAIL_FIELDS[number];
+
+export const CARD_DETAIL_LABELS: Record<CardDetailField, string> = {
+  example: '例文',
+  exampleTranslation: '例文の訳',
+  partOfSpeech: '品詞',
+  ipa: '発音記号',
+  furigana: 'ふりがな',
+  imageUrl: '画像URL',
+  tags: 'タグ'
+};
+
+/**
+ * Tags as typed in a cell or an input: separated by commas, Japanese commas or semicolons.
+ */
+export function parseTags(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .split(/[,、，;]/)
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter((tag, i, all) => tag && all.indexOf(tag) === i);
+}
+
+export function formatTags(tags: string[] | undefined): string {
+  return (tags || []).join(', ');
+}
+
+/**
+ * Only web and inline image addresses are shown, so a cell cannot point the
+ * browser at a script URL.
+ */
+export function safeImageUrl(url: string | undefined): string | null {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+  return /^(https?:\/\/|data:image\/)/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * IPA is shown between slashes whether or not the sheet included them.
+ */
+export function formatIpa(ipa: string | undefined): string | null {
+  const trimmed = ipa?.trim().replace(/^[\/\[]|[\/\]]$/g, '');
+  return trimmed ? `/${trimmed}/` : null;
+}
+
+/**
+ * Text value of a detail field as it appears in a sheet cell or an editor input.
+ */
+export function detailText(card: Flashcard, field: CardDetailField): string {
+  return field === 'tags' ? formatTags(card.tags) : card[field] || '';
+}
+
+/**
+ * Sets a detail field from cell or input text; empty text clears it. Text is kept
+ * as typed, `cleanDeck` trims it on save.
+ */
+export function withDetail(card: Flashcard, field: CardDetailField, text: string): Flashcard {
+  if (field === 'tags') {
+    const tags = parseTags(text);
+    return { ...card, tags: tags.length > 0 ? tags : undefined };
+  }
+  return { ...card, [field]: text || undefined };
+}
+
+export function hasCardDetails(card: Flashcard): boolean {
+  return CARD_DETAIL_FIELDS.some(field => detailText(card, field) !== '');
+}
@@ -0,0 +1,130 @@
+import { ConfusionRecord, Deck, StudentProgress } from '../types';
+import { WEAK_DECK_NAME } from './weakWords';
+import { CUSTOM_DECK_NAME } from './customSession';
+
+const TREND_WINDOW = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Put together per student from other decks, so their rows are not a class deck's progress
+const GENERATED_DECK_NAMES = [WEAK_DECK_NAME, CUSTOM_DECK_NAME];
+
+export interface StudentDeckSummary {
+  username: string;
+  deckName: string;
+  mastery: number; // Latest masteryPercentage
+  cardsMastered: number;
+  totalCards: number;
+  lastAttempted: string;
+  attempts: number;
+  trend: number; // Average change in mastery per attempt over the recent window
+  history: number[]; // Recent masteryPercentage values, oldest first
+}
+
+export type SummarySortKey = 'username' | 'deckName' | 'mastery' | 'cardsMastered' | 'lastAttempted' | 'trend';
+
+function byDate(a: StudentProgress, b: StudentProgress): number {
+  return new Date(a.lastAttempted).getTime() - new Date(b.lastAttempted).getTime();
+}
+
+/**
+ * Least-squares slope of the values against their index.
+ */
+function slope(values: number[]): number {
+  if (values.length < 2) return 0;
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let num = 0;
+  let den = 0;
+  values.forEach((v, x) => {
+    num += (x - meanX) * (v - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return Math.round((num / den) * 10) / 10;
+}
+
+/**
+ * One row per student × deck, built from the raw Progress rows.
+ * Memory-game rows are skipped because their percentage measures clicks, not mastery,
+ * and so are rows of generated decks.
+ */
+export function summarizeClassProgress(progress: StudentProgress[]): StudentDeckSummary[] {
+  const groups = new Map<string, StudentProgress[]>();
+  progress
+    .filter(p => p.memoryTime === undefined && !GENERATED_DECK_NAMES.includes(p.deckName))
+    .forEach(p => {
+      const key = `${p.username}::${p.deckName}`;
+      groups.set(key, [...(groups.get(key) || []), p]);
+    });
+
+  return Array.from(groups.values()).map(records => {
+    const sorted = [...records].sort(byDate);
+    const latest = sorted[sorted.length - 1];
+    const history = sorted.slice(-TREND_WINDOW).map(r => r.masteryPercentage);
+    return {
+      username: latest.username,
+      deckName: latest.deckName,
+      mastery: latest.masteryPercentage,
+      cardsMastered: latest.cardsMastered,
+      totalCards: latest.totalCards,
+      lastAttempted: latest.lastAttempted,
+      attempts: sorted.length,
+      trend: slope(history),
+      history
+    };
+  });
+}
+
+export function sortSummaries(rows: StudentDeckSummary[], key: SummarySortKey, ascending: boolean): StudentDeckSummary[] {
+  const direction = ascending ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key === 'lastAttempted') return direction * (new Date(a.lastAttempted).getTime() - new Date(b.lastAttempted).getTime());
+    if (key === 'username' || key === 'deckName') return direction * a[key].localeCompare(b[key]);
+    return direction * (a[key] - b[key]);
+  });
+}
+
+/**
+ * A student is falling behind on a deck when mastery is low, trending down,
+ * or the deck has not been touched for a week.
+ */
+export function isFallingBehind(row: StudentDeckSummary, now: number = Date.now(), masteryThreshold: number = 50): boolean {
+  const idleDays = (now - new Date(row.lastAttempted).getTime()) / DAY_MS;
+  return row.mastery < masteryThreshold || row.trend < 0 || idleDays > 7;
+}
+
+export interface ConfusionSummary {
+  deckName: string;
+  card: string; // Front of the card that was asked
+  chosen: string; // Front of the card picked instead
+  count: number;
+  students: number;
+}
+
+/**
+ * Wrong picks grouped by asked card and chosen card, most frequent first.
+ * Rows whose cards no longer exist in the deck are dropped.
+ */
+export function summarizeConfusions(confusions: ConfusionRecord[], decks: Deck[]): ConfusionSummary[] {
+  const groups = new Map<string, { summary: ConfusionSummary; usernames: Set<string> }>();
+  confusions.forEach(c => {
+    const deck = decks.find(d => d.name === c.deckName);
+    const card = deck?.cards.find(x => x.id === c.cardId);
+    const chosen = deck?.cards.find(x => x.id === c.chosenCardId);
+    if (!card || !chosen) return;
+    const key = `${c.deckName}::${c.cardId}::${c.chosenCardId}`;
+    const group = groups.get(key) || {
+      summary: { deckName: c.deckName, card: card.front, chosen: chosen.front, count: 0, students: 0 },
+      usernames: new Set<string>()
+    };
+    group.summary.count += 1;
+    group.usernames.add(c.username);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values())
+    .map(({ summary, usernames }) => ({ ...summary, students: usernames.size }))
+    .sort((a, b) => b.count - a.count || b.students - a.students);
+}
+
+export function getStudentHistory(progress: StudentProgress[], username: string): StudentProgress[] {
+  return progress.filter(p => p.username === username).sort((a, b) => byDate(b, a));
+}
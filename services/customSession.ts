@@ -0,0 +1,147 @@
+import { CardReviewState, Deck, Flashcard, ReviewEvent, SessionMode } from '../types';
+import { dictationSentence } from './dictation';
+import { getSpeechRecognizer } from './speechRecognition';
+import { MASTERED_INTERVAL, originKey } from './srs';
+
+export const CUSTOM_DECK_ID = 'custom-session';
+export const CUSTOM_DECK_NAME = 'カスタム学習';
+export const DEFAULT_CUSTOM_LIMIT = 20;
+export const CUSTOM_LIMIT_OPTIONS = [10, 20, 30, 50, 100];
+export const NOT_SEEN_OPTIONS = [3, 7, 14, 30];
+
+/**
+ * How far along a card is, from its longest review interval in any direction.
+ */
+export type MasteryLevel = 0 | 1 | 2 | 3;
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  0: '未学習',
+  1: '学習中',
+  2: '定着',
+  3: '習得'
+};
+
+const SETTLED_INTERVAL = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quiz and listening need four options; a memory board needs two pairs
+const MIN_CARDS: Record<SessionMode, number> = {
+  [SessionMode.FLASHCARD]: 1,
+  [SessionMode.MEMORY]: 2,
+  [SessionMode.LISTENING]: 4,
+  [SessionMode.TYPING]: 1,
+  [SessionMode.QUIZ]: 4,
+  [SessionMode.SPEAKING]: 1,
+  [SessionMode.DICTATION]: 1
+};
+
+export interface CustomSessionFilter {
+  deckNames: string[];
+  tags: string[]; // Any of these; empty keeps every card
+  minLevel: MasteryLevel;
+  maxLevel: MasteryLevel;
+  notSeenDays: number | null; // Cards not answered for at least this many days, or never
+  missedLastTime: boolean; // Cards whose latest answer was wrong
+  limit: number;
+}
+
+export function createCustomFilter(decks: Deck[]): CustomSessionFilter {
+  return {
+    deckNames: decks.map(d => d.name),
+    tags: [],
+    minLevel: 0,
+    maxLevel: 3,
+    notSeenDays: null,
+    missedLastTime: false,
+    limit: DEFAULT_CUSTOM_LIMIT
+  };
+}
+
+export function masteryLevel(states: CardReviewState[]): MasteryLevel {
+  if (states.length === 0) return 0;
+  const interval = Math.max(...states.map(s => s.interval));
+  return interval >= MASTERED_INTERVAL ? 3 : interval >= SETTLED_INTERVAL ? 2 : 1;
+}
+
+/**
+ * Every tag used in the given decks, sorted.
+ */
+export function collectTags(decks: Deck[]): string[] {
+  return Array.from(new Set(decks.flatMap(d => d.cards.flatMap(c => c.tags || [])))).sort((a, b) => a.localeCompare(b, 'ja'));
+}
+
+/**
+ * The cards of the chosen decks that pass every filter, in deck order and before
+ * the limit is applied. Ids and origins are set as in the weak-words deck, so
+ * reviews are recorded against the original cards.
+ */
+export function filterCustomCards(
+  username: string,
+  decks: Deck[],
+  filter: CustomSessionFilter,
+  events: ReviewEvent[],
+  reviewStates: Record<string, CardReviewState>,
+  now: Date = new Date()
+): Flashcard[] {
+  const statesByCard = new Map<string, CardReviewState[]>();
+  Object.values(reviewStates)
+    .filter(s => s.username === username)
+    .forEach(s => {
+      const key = originKey(s.deckName, s.cardId);
+      statesByCard.set(key, [...(statesByCard.get(key) || []), s]);
+    });
+  const lastEvent = new Map<string, ReviewEvent>();
+  events
+    .filter(e => e.username === username)
+    .forEach(e => {
+      const key = originKey(e.deckName, e.cardId);
+      const previous = lastEvent.get(key);
+      if (!previous || new Date(e.answeredAt) > new Date(previous.answeredAt)) lastEvent.set(key, e);
+    });
+
+  const cutoff = filter.notSeenDays === null ? null : now.getTime() - filter.notSeenDays * DAY_MS;
+
+  return decks
+    .filter(deck => filter.deckNames.includes(deck.name))
+    .flatMap(deck => deck.cards.map(card => ({ deck, card, key: originKey(deck.name, card.id) })))
+    .filter(({ card, key }) => {
+      if (filter.tags.length > 0 && !(card.tags || []).some(tag => filter.tags.includes(tag))) return false;
+      const states = statesByCard.get(key) || [];
+      const level = masteryLevel(states);
+      if (level < filter.minLevel || level > filter.maxLevel) return false;
+      const event = lastEvent.get(key);
+      if (filter.missedLastTime && event?.result !== 'wrong') return false;
+      if (cutoff !== null) {
+        const seen = Math.max(
+          event ? new Date(event.answeredAt).getTime() : 0,
+          ...states.map(s => new Date(s.lastReviewed).getTime() || 0)
+        );
+        if (seen > cutoff) return false;
+      }
+      return true;
+    })
+    .map(({ deck, card, key }) => ({ ...card, id: key, masteryScore: 0, origin: { deckName: deck.name, cardId: card.id } }));
+}
+
+/**
+ * A transient deck of up to `limit` randomly chosen matching cards.
+ */
+export function buildCustomDeck(cards: Flashcard[], limit: number, random: () => number = Math.random): Deck {
+  const shuffled = cards
+    .map(card => ({ card, order: random() }))
+    .sort((a, b) => a.order - b.order)
+    .map(entry => entry.card);
+  return { id: CUSTOM_DECK_ID, name: CUSTOM_DECK_NAME, cards: shuffled.slice(0, limit) };
+}
+
+/**
+ * Why a mode cannot run on these cards, or null when it can.
+ */
+export function modeUnavailableReason(mode: SessionMode, cards: Flashcard[]): string | null {
+  if (mode === SessionMode.SPEAKING && !getSpeechRecognizer().isAvailable()) return 'このブラウザは音声認識に未対応です';
+  const usable = mode === SessionMode.DICTATION ? cards.filter(c => dictationSentence(c)).length : cards.length;
+  if (usable >= MIN_CARDS[mode]) return null;
+  return mode === SessionMode.DICTATION && cards.length > 0
+    ? '例文のあるカードがありません'
+    : `${MIN_CARDS[mode]}枚以上のカードが必要です`;
+}
@@ -0,0 +1,92 @@
+import { Assignment, CardReviewState, ClassGroup, ConfusionRecord, Deck, Exam, ExamResult, ReviewEvent, StudentProgress } from '../types';
+import { ApiResult, FullData, LoginData } from './apiContract';
+import { PasswordCredential, PasswordParams } from './password';
+import { createAppsScriptProvider } from './googleSheets';
+import { createLocalProvider } from './localStore';
+
+// Latest URL provided by the user. Override with SCRIPT_URL at build time.
+const DEFAULT_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbw2ke6s8AcvRXKXK8IZVVyvbHcYE5KH25idViBZxlvcEvTXor1UF5Y7h3HmTml_JMU/exec';
+
+export interface RegisterPayload extends PasswordCredential {
+  username: string;
+  studentName: string;
+  email: string;
+}
+
+export interface ProfileUpdate {
+  studentName: string;
+  email: string;
+}
+
+/**
+ * Everything the UI needs from a backend. Components receive a provider
+ * instead of talking to a specific service. Methods never throw; failures
+ * come back as a typed ApiError.
+ */
+export interface DataProvider {
+  readonly name: string;
+  /** Token attached to every subsequent request; null when signed out. */
+  setSessionToken(token: string | null): void;
+  refreshSession(): Promise<ApiResult<string>>;
+  fetchFullData(): Promise<ApiResult<FullData>>;
+  saveStudentProgress(progress: Partial<StudentProgress>): Promise<ApiResult<void>>;
+  saveReviewStates(username: string, reviews: CardReviewState[]): Promise<ApiResult<void>>;
+  /** Wrong multiple-choice picks; rows of an already stored session are replaced. */
+  saveConfusions(username: string, confusions: ConfusionRecord[]): Promise<ApiResult<void>>;
+  /** Per-answer events of finished sessions; rows of an already stored session are replaced. */
+  saveReviewEvents(username: string, events: ReviewEvent[]): Promise<ApiResult<void>>;
+  registerUser(data: RegisterPayload): Promise<ApiResult<void>>;
+  /** Salt and cost needed to hash a password before `loginUser`. */
+  getPasswordParams(username: string): Promise<ApiResult<PasswordParams>>;
+  /** `legacyProof` is checked only for accounts still holding an unsalted hash. */
+  loginUser(username: string, passwordHash: string, legacyProof: string): Promise<ApiResult<LoginData>>;
+  /** Replaces the stored hash of the signed-in user. */
+  upgradePassword(username: string, credential: PasswordCredential): Promise<ApiResult<void>>;
+  /** Mails a one-time reset code. Succeeds for unknown IDs too, so IDs cannot be probed. */
+  requestPasswordReset(username: string): Promise<ApiResult<void>>;
+  resetPassword(username: string, code: string, credential: PasswordCredential): Promise<ApiResult<void>>;
+  updateProfile(username: string, profile: ProfileUpdate): Promise<ApiResult<void>>;
+  changePassword(username: string, currentHash: string, credential: PasswordCredential): Promise<ApiResult<void>>;
+  /** Deletes the account together with every progress, review, confusion and event row it owns. */
+  deleteAccount(username: string, passwordHash: string): Promise<ApiResult<void>>;
+  /** Teacher-only: creates or replaces a class by id. */
+  saveClass(group: ClassGroup): Promise<ApiResult<void>>;
+  /** Teacher-only: removes a class with its assignments and exams. */
+  deleteClass(classId: string): Promise<ApiResult<void>>;
+  saveAssignment(assignment: Assignment): Promise<ApiResult<void>>;
+  deleteAssignment(assignmentId: string): Promise<ApiResult<void>>;
+  /** Teacher-only: creates or replaces a deck by id, keeping card order. A changed name renames it. */
+  saveDeck(deck: Deck): Promise<ApiResult<void>>;
+  deleteDeck(deckId: string): Promise<ApiResult<void>>;
+  /** Teacher-only: creates or replaces an exam by id. */
+  saveExam(exam: Exam): Promise<ApiResult<void>>;
+  /** Teacher-only: removes an exam and its results. */
+  deleteExam(examId: string): Promise<ApiResult<void>>;
+  /** Stores a submitted exam; a second result for the same exam and student is a conflict. */
+  saveExamResult(result: ExamResult): Promise<ApiResult<void>>;
+}
+
+export type DataBackend = 'appsScript' | 'local';
+
+export interface DataProviderConfig {
+  backend: DataBackend;
+  scriptUrl: string;
+}
+
+export function readDataProviderConfig(): DataProviderConfig {
+  const backend = process.env.DATA_BACKEND === 'local' ? 'local' : 'appsScript';
+  return {
+    backend,
+    scriptUrl: process.env.SCRIPT_URL || DEFAULT_SCRIPT_URL
+  };
+}
+
+export function createDataProvider(config: DataProviderConfig = readDataProviderConfig()): DataProvider {
+  switch (config.backend) {
+    case 'local':
+      return createLocalProvider();
+    case 'appsScript':
+    default:
+      return createAppsScriptProvider(config.scriptUrl);
+  }
+}
@@ -0,0 +1,84 @@
+import { Deck, Flashcard } from '../types';
+import { createSessionId } from './syncQueue';
+import { CARD_DETAIL_FIELDS, detailText, hasCardDetails, withDetail } from './cardFields';
+import { WEAK_DECK_NAME } from './weakWords';
+import { CUSTOM_DECK_NAME } from './customSession';
+
+/**
+ * Sheet tabs the backend keeps for itself, and the names progress rows of generated
+ * decks are saved under; a deck may not take one of these names.
+ */
+export const RESERVED_DECK_NAMES = ['Users', 'Progress', 'Reviews', 'Classes', 'Assignments', 'Resets', 'Confusions', 'Exams', 'ExamResults', 'Events', WEAK_DECK_NAME, CUSTOM_DECK_NAME];
+
+export const MAX_DECK_NAME_LENGTH = 100;
+
+export interface DeckIssue {
+  cardId?: string; // Missing when the issue concerns the deck itself
+  field: 'name' | 'cards' | 'front' | 'back';
+  message: string;
+}
+
+export function createEmptyDeck(): Deck {
+  return { id: '', name: '', cards: [createCard()] };
+}
+
+export function createCard(): Flashcard {
+  return { id: createSessionId(), front: '', back: '', notes: '', example: '', masteryScore: 0 };
+}
+
+export function moveCard(cards: Flashcard[], from: number, to: number): Flashcard[] {
+  if (to < 0 || to >= cards.length || from === to) return cards;
+  const next = [...cards];
+  const [card] = next.splice(from, 1);
+  next.splice(to, 0, card);
+  return next;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Checks a deck before it is saved. Blank cards are ignored when they are
+ * completely empty (see `cleanDeck`), so only half-filled rows are reported.
+ */
+export function validateDeck(deck: Deck, otherDecks: Deck[]): DeckIssue[] {
+  const issues: DeckIssue[] = [];
+  const name = deck.name.trim();
+
+  if (!name) issues.push({ field: 'name', message: '単語帳の名前を入力してください' });
+  else if (name.length > MAX_DECK_NAME_LENGTH) issues.push({ field: 'name', message: `名前は${MAX_DECK_NAME_LENGTH}文字以内にしてください` });
+  else if (RESERVED_DECK_NAMES.some(r => normalize(r) === normalize(name))) issues.push({ field: 'name', message: `「${name}」はシステムで使用されている名前です` });
+  else if (otherDecks.some(d => d.id !== deck.id && normalize(d.name) === normalize(name))) issues.push({ field: 'name', message: '同じ名前の単語帳が既にあります' });
+
+  const filled = deck.cards.filter(c => c.front.trim() || c.back.trim() || c.notes?.trim() || hasCardDetails(c));
+  if (filled.length === 0) issues.push({ field: 'cards', message: 'カードを1枚以上追加してください' });
+
+  const seen = new Map<string, string>();
+  filled.forEach(card => {
+    if (!card.front.trim()) issues.push({ cardId: card.id, field: 'front', message: '表面（英語）が空です' });
+    if (!card.back.trim()) issues.push({ cardId: card.id, field: 'back', message: '裏面（日本語）が空です' });
+    const key = normalize(card.front);
+    if (!key) return;
+    if (seen.has(key)) issues.push({ cardId: card.id, field: 'front', message: `「${card.front.trim()}」が重複しています` });
+    else seen.set(key, card.id);
+  });
+
+  return issues;
+}
+
+/**
+ * Trims every field and drops rows left completely empty. New decks take their
+ * name as id, matching how the Sheets backend identifies a deck by its tab.
+ */
+export function cleanDeck(deck: Deck): Deck {
+  const name = deck.name.trim();
+  return {
+    id: deck.id || name,
+    name,
+    cards: deck.cards
+      .map(c => CARD_DETAIL_FIELDS.reduce<Flashcard>(
+        (card, field) => withDetail(card, field, detailText(card, field).trim()),
+        { ...c, front: c.front.trim(), back: c.back.trim(), notes: c.notes?.trim() || undefined }
+      ))
+      .filter(c => c.front || c.back || c.notes || hasCardDetails(c))
+  };
+}
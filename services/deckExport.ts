@@ -0,0 +1,72 @@
+import { CardReviewState, Deck } from '../types';
+import { buildApkg } from './anki';
+import { CARD_DETAIL_FIELDS, detailText } from './cardFields';
+
+export type ExportFormat = 'csv' | 'tsv' | 'quizlet' | 'apkg';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  quizlet: 'Quizlet',
+  apkg: 'Anki (.apkg)'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  quizlet: 'txt',
+  apkg: 'apkg'
+};
+
+function quote(field: string, delimiter: string): string {
+  return /["\r\n]/.test(field) || field.includes(delimiter) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Header row plus one row per card, in the column order the Sheets tabs use.
+ */
+export function exportDelimited(deck: Deck, delimiter: ',' | '\t'): string {
+  const rows = [
+    ['front', 'back', 'notes', ...CARD_DETAIL_FIELDS],
+    ...deck.cards.map(c => [c.front, c.back, c.notes || '', ...CARD_DETAIL_FIELDS.map(field => detailText(c, field))])
+  ];
+  return rows.map(row => row.map(f => quote(f, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quizlet's import box expects "term<TAB>definition" per line and has no notes column.
+ */
+export function exportQuizlet(deck: Deck): string {
+  return deck.cards.map(c => `${c.front.replace(/\s+/g, ' ')}\t${c.back.replace(/\s+/g, ' ')}`).join('\n');
+}
+
+export async function exportDeck(
+  deck: Deck,
+  format: ExportFormat,
+  reviewStates: Record<string, CardReviewState> = {}
+): Promise<{ fileName: string; blob: Blob }> {
+  const fileName = `${deck.name.replace(/[\\/:*?"<>|]/g, '_')}.${EXTENSIONS[format]}`;
+  switch (format) {
+    case 'apkg':
+      return { fileName, blob: new Blob([await buildApkg(deck, reviewStates)], { type: 'application/octet-stream' }) };
+    case 'quizlet':
+      return { fileName, blob: new Blob([exportQuizlet(deck)], { type: 'text/plain;charset=utf-8' }) };
+    case 'tsv':
+      return { fileName, blob: new Blob([exportDelimited(deck, '\t')], { type: 'text/tab-separated-values;charset=utf-8' }) };
+    case 'csv':
+    default:
+      // BOM so Excel opens Japanese text as UTF-8
+      return { fileName, blob: new Blob(['\uFEFF' + exportDelimited(deck, ',')], { type: 'text/csv;charset=utf-8' }) };
+  }
+}
+
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,222 @@
+import { Flashcard } from '../types';
+import { createSessionId } from './syncQueue';
+import { parseApkg } from './anki';
+import { CARD_DETAIL_FIELDS, CardDetailField, withDetail } from './cardFields';
+
+export type ImportFormat = 'csv' | 'tsv' | 'quizlet' | 'apkg';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  quizlet: 'Quizlet',
+  apkg: 'Anki (.apkg)'
+};
+
+/**
+ * Rows as read from the source, before columns are mapped onto card fields.
+ */
+export interface ImportTable {
+  columns: string[];
+  rows: string[][];
+  groups?: string[]; // Source deck of each row, when the file holds several (Anki)
+}
+
+export type OptionalColumn = 'notes' | CardDetailField;
+
+export const OPTIONAL_COLUMNS: OptionalColumn[] = ['notes', ...CARD_DETAIL_FIELDS];
+
+/**
+ * Source column of each card field; optional fields may be left unmapped.
+ */
+export interface ColumnMapping extends Record<OptionalColumn, number | null> {
+  front: number;
+  back: number;
+}
+
+export interface ImportPreviewRow {
+  card: Flashcard;
+  duplicate: 'file' | 'deck' | null;
+  incomplete: boolean; // Front or back is empty
+}
+
+const HEADER_HINTS = {
+  front: /^(front|english|term|word|question|表面?|英語|単語)$/i,
+  back: /^(back|japanese|definition|meaning|answer|裏面?|日本語|意味)$/i,
+  notes: /^(notes?|extra|memo|補足|メモ)$/i,
+  example: /^(examples?|sentence|例文)$/i,
+  exampleTranslation: /^(example ?translation|translation|例文の?訳|訳)$/i,
+  partOfSpeech: /^(pos|part ?of ?speech|品詞)$/i,
+  ipa: /^(ipa|pronunciation|phonetics?|発音記号|発音)$/i,
+  furigana: /^(furigana|reading|kana|ふりがな|フリガナ|読み|よみ)$/i,
+  imageUrl: /^(image|image ?url|picture|画像|画像URL)$/i,
+  tags: /^(tags?|category|タグ|分類)$/i
+};
+
+/**
+ * RFC 4180 parsing: quoted fields may contain the delimiter, newlines and doubled quotes.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') quoted = true;
+    else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += char;
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+export function detectDelimiter(text: string): ',' | '\t' | ';' {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const counts = { '\t': 0, ',': 0, ';': 0 };
+  for (const char of sample) if (char in counts) counts[char as keyof typeof counts]++;
+  if (counts['\t'] > 0) return '\t';
+  return counts[';'] > counts[','] ? ';' : ',';
+}
+
+/**
+ * Quizlet exports put a tab (or comma) between term and definition and a newline
+ * (or semicolon) between cards, without quoting. Only the first separator on a
+ * line splits it, so definitions may contain commas.
+ */
+export function parseQuizlet(text: string): string[][] {
+  const rowSeparator = /\r?\n/.test(text.trim()) ? /\r?\n/ : ';';
+  const lines = text.trim().split(rowSeparator).filter(l => l.trim());
+  const columnSeparator = lines.some(l => l.includes('\t')) ? '\t' : ',';
+  return lines.map(line => {
+    const at = line.indexOf(columnSeparator);
+    return at < 0 ? [line.trim(), ''] : [line.slice(0, at).trim(), line.slice(at + 1).trim()];
+  });
+}
+
+export function detectImportFormat(fileName: string): ImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'apkg') return 'apkg';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'txt') return 'quizlet';
+  return 'csv';
+}
+
+function toTable(rows: string[][]): ImportTable {
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  return { columns: Array.from({ length: width }, (_, i) => `列${i + 1}`), rows };
+}
+
+export function parseImportText(text: string, format: Exclude<ImportFormat, 'apkg'>): ImportTable {
+  if (format === 'quizlet') return toTable(parseQuizlet(text));
+  return toTable(parseDelimited(text, format === 'tsv' ? '\t' : detectDelimiter(text)));
+}
+
+export async function parseImportFile(file: File, format: ImportFormat = detectImportFormat(file.name)): Promise<ImportTable> {
+  if (format === 'apkg') return parseApkg(new Uint8Array(await file.arrayBuffer()));
+  return parseImportText(await file.text(), format);
+}
+
+/**
+ * True when the first row reads like column titles rather than a card.
+ */
+export function looksLikeHeader(table: ImportTable): boolean {
+  const first = table.rows[0];
+  if (!first) return false;
+  return first.some(cell => HEADER_HINTS.front.test(cell.trim())) && first.some(cell => HEADER_HINTS.back.test(cell.trim()));
+}
+
+/**
+ * The first two columns as front and back, nothing else mapped.
+ */
+export function defaultMapping(): ColumnMapping {
+  return { front: 0, back: 1, ...Object.fromEntries(OPTIONAL_COLUMNS.map(field => [field, null])) } as ColumnMapping;
+}
+
+/**
+ * Picks columns by their titles when there are any, otherwise the first three in
+ * order. Extra columns such as part of speech or tags are only mapped by title.
+ */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => columns.findIndex(c => pattern.test(c.trim()));
+  const front = find(HEADER_HINTS.front);
+  const back = find(HEADER_HINTS.back);
+  const mapping: ColumnMapping = {
+    front: front >= 0 ? front : 0,
+    back: back >= 0 ? back : Math.min(1, columns.length - 1),
+    ...Object.fromEntries(OPTIONAL_COLUMNS.map(field => {
+      const index = find(HEADER_HINTS[field]);
+      return [field, index >= 0 ? index : null];
+    })) as Record<OptionalColumn, number | null>
+  };
+  const claimed = new Set(Object.values(mapping));
+  if (mapping.notes === null && columns.length > 2 && !claimed.has(2)) mapping.notes = 2;
+  return mapping;
+}
+
+export function applyHeaderRow(table: ImportTable): ImportTable {
+  const [header, ...rows] = table.rows;
+  return {
+    columns: table.columns.map((c, i) => header[i]?.trim() || c),
+    rows,
+    groups: table.groups?.slice(1)
+  };
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Maps rows onto cards and flags duplicates, both within the file and against
+ * cards already in the deck. The first occurrence in the file is kept as the original.
+ */
+export function buildImportPreview(table: ImportTable, mapping: ColumnMapping, existing: Flashcard[]): ImportPreviewRow[] {
+  const inDeck = new Set(existing.map(c => normalize(c.front)).filter(Boolean));
+  const inFile = new Set<string>();
+  const cell = (row: string[], index: number | null) => index === null ? '' : (row[index] ?? '').trim();
+  return table.rows
+    .map(row => CARD_DETAIL_FIELDS.reduce<Flashcard>(
+      (card, field) => withDetail(card, field, cell(row, mapping[field])),
+      {
+        id: createSessionId(),
+        front: cell(row, mapping.front),
+        back: cell(row, mapping.back),
+        notes: cell(row, mapping.notes) || undefined,
+        masteryScore: 0
+      }
+    ))
+    .filter(card => card.front || card.back)
+    .map(card => {
+      const key = normalize(card.front);
+      const duplicate = inDeck.has(key) ? 'deck' : inFile.has(key) ? 'file' : null;
+      if (key) inFile.add(key);
+      return { card, duplicate, incomplete: !card.front || !card.back };
+    });
+}
+
+export function filterImportGroup(table: ImportTable, group: string): ImportTable {
+  if (!table.groups || !group) return table;
+  const keep = table.groups.map(g => g === group);
+  return {
+    columns: table.columns,
+    rows: table.rows.filter((_, i) => keep[i]),
+    groups: table.groups.filter((_, i) => keep[i])
+  };
+}
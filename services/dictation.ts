@@ -0,0 +1,84 @@
+import { Flashcard } from '../types';
+import { normalizeAnswer } from './answerCheck';
+
+export type DictationWordStatus = 'correct' | 'missing' | 'extra';
+
+export interface DictationWord {
+  text: string; // As written in the sentence, or as typed for extra words
+  status: DictationWordStatus;
+}
+
+export interface DictationCheck {
+  words: DictationWord[]; // The sentence in order, with extra typed words where they were typed
+  matched: number;
+  total: number;
+  accuracy: number; // 0-1: words heard right, less half a word for each extra one, over the sentence length
+}
+
+const MIN_SENTENCE_WORDS = 3;
+
+// A slip of one word in five still counts as heard
+export const DICTATION_PASS_ACCURACY = 0.8;
+
+/**
+ * Runs of English in a notes field, e.g. the example in "果物の一種。I ate an apple."
+ * Short glosses such as "(n.)" have too few words to be read aloud.
+ */
+function englishSentences(notes: string): string[] {
+  return (notes.match(/[A-Za-z][A-Za-z0-9\s,'’"“”:;-]*[.!?]?/g) || [])
+    .map(part => part.trim())
+    .filter(part => part.split(/\s+/).filter(w => /[A-Za-z]/.test(w)).length >= MIN_SENTENCE_WORDS);
+}
+
+/**
+ * The sentence read aloud for a card: its example, or else the first English
+ * sentence in its notes. Null when the card has neither.
+ */
+export function dictationSentence(card: Flashcard): string | null {
+  if (card.example?.trim()) return card.example.trim();
+  return card.notes ? englishSentences(card.notes)[0] ?? null : null;
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => normalizeAnswer(word));
+}
+
+/**
+ * Word-level diff of the typed answer against the sentence, by longest common
+ * subsequence. Case and punctuation are ignored.
+ */
+export function checkDictation(input: string, sentence: string): DictationCheck {
+  const target = splitWords(sentence);
+  const typed = splitWords(input);
+  const a = target.map(normalizeAnswer);
+  const b = typed.map(normalizeAnswer);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const words: DictationWord[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      words.push({ text: target[i++], status: 'correct' });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // A misheard word shows as the sentence's word followed by what was typed
+      words.push({ text: target[i++], status: 'missing' });
+    } else {
+      words.push({ text: typed[j++], status: 'extra' });
+    }
+  }
+
+  const matched = words.filter(w => w.status === 'correct').length;
+  const extra = words.filter(w => w.status === 'extra').length;
+  // Extra words count against the answer, or typing every guess would always pass
+  const total = target.length;
+  const accuracy = total > 0 ? Math.max(0, (matched - extra / 2) / total) : 0;
+  return { words, matched, total, accuracy };
+}
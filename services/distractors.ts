@@ -0,0 +1,116 @@
+import { CardDirection, Flashcard } from '../types';
+import { editDistance, normalizeAnswer } from './answerCheck';
+import { answerText, promptText } from './studyDirection';
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'preposition' | 'conjunction';
+
+// Checked in order; the lookbehind keeps "adv." from also matching "v."
+const PART_OF_SPEECH_PATTERNS: [PartOfSpeech, RegExp][] = [
+  ['adverb', /(?<![a-z])adv\.|\badverb\b|副詞|【副】/i],
+  ['adjective', /(?<![a-z])adj\.|\badjective\b|形容詞|【形】/i],
+  ['preposition', /(?<![a-z])prep\.|\bpreposition\b|前置詞|【前】/i],
+  ['conjunction', /(?<![a-z])conj\.|\bconjunction\b|接続詞|【接】/i],
+  ['verb', /(?<![a-z])v[ti]?\.|\bverb\b|動詞|【動】/i],
+  ['noun', /(?<![a-z])n\.|\bnoun\b|名詞|【名】/i]
+];
+
+const SAME_PART_WEIGHT = 3;
+const SPELLING_WEIGHT = 2;
+const LENGTH_WEIGHT = 1;
+const JITTER = 0.75; // Keeps the same near-misses from appearing every time
+
+/**
+ * Part-of-speech tag written in a card's notes, e.g. "(n.)", "v.", "形容詞" or "【動】".
+ */
+export function partOfSpeech(notes: string | undefined): PartOfSpeech | null {
+  if (!notes) return null;
+  const match = PART_OF_SPEECH_PATTERNS.find(([, pattern]) => pattern.test(notes));
+  return match ? match[0] : null;
+}
+
+/**
+ * A card's part of speech from its own field, else from its notes. A bare
+ * abbreviation in the field such as "n" or "adj" is read as "n." or "adj.".
+ */
+export function cardPartOfSpeech(card: Flashcard): PartOfSpeech | null {
+  const field = card.partOfSpeech?.trim();
+  if (field) {
+    const part = partOfSpeech(/^[a-z]+$/i.test(field) ? `${field}.` : field);
+    if (part) return part;
+  }
+  return partOfSpeech(card.notes);
+}
+
+/**
+ * The separate meanings in a side, so "big, large" and "large" count as the same answer.
+ */
+function meanings(text: string): string[] {
+  return text.split(/[\/;,、，・]/).map(normalizeAnswer).filter(Boolean);
+}
+
+function sharesMeaning(a: string, b: string): boolean {
+  const left = meanings(a);
+  return meanings(b).some(m => left.includes(m));
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+function lengthSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - Math.abs(a.length - b.length) / longest;
+}
+
+/**
+ * Wrong options for a card, most confusable first: same part of speech, similar
+ * English spelling and a similar-length answer score higher. Cards whose answer
+ * means the same as the correct one, or whose prompt would also fit, are never
+ * offered, and no two options repeat.
+ */
+export function pickDistractors(
+  correct: Flashcard,
+  pool: Flashcard[],
+  direction: CardDirection,
+  count: number = 3,
+  random: () => number = Math.random
+): Flashcard[] {
+  const answer = answerText(correct, direction);
+  const prompt = promptText(correct, direction);
+  const spelling = normalizeAnswer(correct.front);
+  const part = cardPartOfSpeech(correct);
+
+  const scored = pool
+    .filter(card =>
+      card.id !== correct.id &&
+      !sharesMeaning(answer, answerText(card, direction)) &&
+      !sharesMeaning(prompt, promptText(card, direction))
+    )
+    .map(card => {
+      const candidatePart = cardPartOfSpeech(card);
+      const score =
+        (part && candidatePart === part ? SAME_PART_WEIGHT : 0) +
+        SPELLING_WEIGHT * similarity(spelling, normalizeAnswer(card.front)) +
+        LENGTH_WEIGHT * lengthSimilarity(answer, answerText(card, direction)) +
+        JITTER * random();
+      return { card, score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const chosen: Flashcard[] = [];
+  for (const { card } of scored) {
+    if (chosen.length >= count) break;
+    const text = answerText(card, direction);
+    if (chosen.some(c => sharesMeaning(answerText(c, direction), text))) continue;
+    chosen.push(card);
+  }
+  return chosen;
+}
+
+/**
+ * The correct card plus its distractors in random order.
+ */
+export function buildChoices(correct: Flashcard, pool: Flashcard[], direction: CardDirection, count: number = 3): Flashcard[] {
+  return [correct, ...pickDistractors(correct, pool, direction, count)].sort(() => Math.random() - 0.5);
+}
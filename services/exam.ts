@@ -0,0 +1,171 @@
+import { CardDirection, ClassGroup, Deck, Exam, ExamAnswer, ExamQuestionType, ExamResult, Flashcard } from '../types';
+import { getClassesForStudent } from './assignments';
+import { checkTypedAnswer } from './answerCheck';
+import { pickDistractors } from './distractors';
+
+export const EXAM_QUESTION_TYPE_LABELS: Record<ExamQuestionType, string> = {
+  choice: '4択',
+  typing: 'タイピング',
+  listening: 'リスニング'
+};
+
+export const MAX_EXAM_QUESTIONS = 100;
+export const MAX_EXAM_MINUTES = 120;
+
+export interface ExamQuestion {
+  card: Flashcard;
+  type: ExamQuestionType;
+  direction: CardDirection;
+  choices: Flashcard[]; // Empty for typing questions
+}
+
+/**
+ * 32-bit FNV-1a hash of the seed text.
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32: a small deterministic generator returning values in [0, 1).
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function createExamSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * The exam's questions in order. The same seed and deck always give the same
+ * cards, question types and options. Types are spread evenly over the questions;
+ * typing asks for the English word and listening for the meaning.
+ */
+export function buildExamQuestions(exam: Exam, deck: Deck): ExamQuestion[] {
+  const random = createSeededRandom(exam.seed);
+  const types: ExamQuestionType[] = exam.questionTypes.length > 0 ? exam.questionTypes : ['choice'];
+  const cards = shuffle(deck.cards, random).slice(0, exam.questionCount);
+  const order = shuffle(cards.map((_, i) => types[i % types.length]), random);
+
+  return cards.map((card, i) => {
+    const type = order[i];
+    const direction: CardDirection = type === 'typing' ? 'jaToEn'
+      : type === 'listening' ? 'enToJa'
+      : exam.direction === 'mixed' ? (random() < 0.5 ? 'enToJa' : 'jaToEn')
+      : exam.direction;
+    const choices = type === 'typing'
+      ? []
+      : shuffle([card, ...pickDistractors(card, deck.cards, direction, 3, random)], random);
+    return { card, type, direction, choices };
+  });
+}
+
+/**
+ * Typed answers must match exactly after normalization; the typo allowance of
+ * practice mode does not apply in a test.
+ */
+export function gradeExamAnswer(question: ExamQuestion, response: string): ExamAnswer {
+  const correct = question.type === 'typing'
+    ? response.trim() !== '' && checkTypedAnswer(response, question.card.front).verdict === 'correct'
+    : response === question.card.id;
+  return { cardId: question.card.id, type: question.type, response, correct };
+}
+
+export function buildExamResult(
+  exam: Exam,
+  username: string,
+  answers: ExamAnswer[],
+  startedAt: string,
+  timedOut: boolean,
+  id: string
+): ExamResult {
+  return {
+    id,
+    examId: exam.id,
+    username,
+    deckName: exam.deckName,
+    score: answers.filter(a => a.correct).length,
+    total: answers.length,
+    answers,
+    startedAt,
+    submittedAt: new Date().toISOString(),
+    timedOut
+  };
+}
+
+export function examPercentage(result: Pick<ExamResult, 'score' | 'total'>): number {
+  return result.total > 0 ? Math.round((result.score / result.total) * 100) : 0;
+}
+
+export function getExamsForStudent(username: string, classes: ClassGroup[], exams: Exam[]): Exam[] {
+  const classIds = new Set(getClassesForStudent(username, classes).map(c => c.id));
+  return exams
+    .filter(e => classIds.has(e.classId))
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+}
+
+export function findExamResult(examId: string, username: string, results: ExamResult[]): ExamResult | undefined {
+  return results.find(r => r.examId === examId && r.username === username);
+}
+
+/**
+ * Seconds left of the time limit, never below zero.
+ */
+export function remainingSeconds(exam: Exam, startedAt: number, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((startedAt + exam.timeLimitMinutes * 60 * 1000 - now) / 1000));
+}
+
+export function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export interface ExamAttempt {
+  resultId: string;
+  startedAt: number;
+  responses: string[];
+}
+
+const ATTEMPT_PREFIX = 'lm_exam_attempt_';
+
+/**
+ * An exam in progress is kept locally so a reload resumes it with the clock still running.
+ */
+export function loadExamAttempt(username: string, examId: string): ExamAttempt | null {
+  try {
+    const saved = localStorage.getItem(`${ATTEMPT_PREFIX}${username}_${examId}`);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("[Exam] Failed to read attempt", e);
+    return null;
+  }
+}
+
+export function storeExamAttempt(username: string, examId: string, attempt: ExamAttempt): void {
+  localStorage.setItem(`${ATTEMPT_PREFIX}${username}_${examId}`, JSON.stringify(attempt));
+}
+
+export function clearExamAttempt(username: string, examId: string): void {
+  localStorage.removeItem(`${ATTEMPT_PREFIX}${username}_${examId}`);
+}
@@ -1,53 +1,222 @@
-import { Deck, Flashcard, StudentProgress } from '../types';
+import { Assignment, CardReviewState, ClassGroup, ConfusionRecord, Deck, Exam, ExamResult, ReviewEvent, StudentProgress } from '../types';
+import { DataProvider, ProfileUpdate, RegisterPayload } from './dataProvider';
+import {
+  ApiResult, FullData, LoginData, classifyFailure, fail, ok, parseFullData, parseLoginResponse,
+  parsePasswordParams, parseRegisterResponse, parseSaveResponse, parseTokenResponse
+} from './apiContract';
+import { PasswordCredential, PasswordParams } from './password';
+import { CARD_DETAIL_FIELDS, detailText } from './cardFields';
 
-export async function hashPassword(password: string): Promise<string> {
-  const msgUint8 = new TextEncoder().encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+/**
+ * Performs a request and maps transport failures onto the error taxonomy.
+ */
+async function requestScript(url: string, init: RequestInit): Promise<ApiResult<string>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors', ...init });
+  } catch (e: any) {
+    return fail('network', e?.message || 'Network request failed');
+  }
+  const text = await response.text().catch(() => '');
+  if (!response.ok) return { ok: false, error: classifyFailure(response.status, text) };
+  return ok(text);
 }
 
-async function postToScript(url: string, data: object): Promise<string> {
-  const response = await fetch(url, {
+async function postToScript(url: string, data: object, token?: string | null): Promise<ApiResult<string>> {
+  return requestScript(url, {
     method: 'POST',
-    mode: 'cors',
     headers: { 'Content-Type': 'text/plain' },
-    body: JSON.stringify(data)
+    body: JSON.stringify(token ? { ...data, token } : data)
   });
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-  return response.text();
 }
 
-export async function registerUser(scriptUrl: string, data: { username: string, studentName: string, email: string, passwordHash: string, rawPassword: string }): Promise<string> {
-  return postToScript(scriptUrl, { action: 'register', ...data });
+export async function registerUser(scriptUrl: string, data: RegisterPayload): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'register', ...data });
+  return result.ok ? parseRegisterResponse(result.data) : result;
+}
+
+export async function getPasswordParams(scriptUrl: string, username: string): Promise<ApiResult<PasswordParams>> {
+  const result = await postToScript(scriptUrl, { action: 'passwordParams', username });
+  return result.ok ? parsePasswordParams(result.data) : result;
 }
 
-export async function loginUser(scriptUrl: string, username: string, passwordHash: string): Promise<string> {
-  return postToScript(scriptUrl, { action: 'login', username, passwordHash });
+export async function upgradePassword(scriptUrl: string, username: string, credential: PasswordCredential, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'upgradePassword', username, ...credential }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
 }
 
-export async function fetchFullData(scriptUrl: string): Promise<{ decks: Deck[], progress: StudentProgress[] }> {
+export async function requestPasswordReset(scriptUrl: string, username: string): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'requestReset', username });
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function resetPassword(scriptUrl: string, username: string, code: string, credential: PasswordCredential): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'resetPassword', username, code, ...credential });
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function updateProfile(scriptUrl: string, username: string, profile: ProfileUpdate, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'updateProfile', username, ...profile }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function changePassword(scriptUrl: string, username: string, currentHash: string, credential: PasswordCredential, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'changePassword', username, currentHash, ...credential }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function deleteAccount(scriptUrl: string, username: string, passwordHash: string, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'deleteAccount', username, passwordHash }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveClass(scriptUrl: string, group: ClassGroup, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'saveClass', ...group, members: group.members.join(',') }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function deleteClass(scriptUrl: string, classId: string, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'deleteClass', id: classId }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveAssignment(scriptUrl: string, assignment: Assignment, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'saveAssignment', ...assignment }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function deleteAssignment(scriptUrl: string, assignmentId: string, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'deleteAssignment', id: assignmentId }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+/**
+ * The deck is written as one tab: a header row, then the cards in order
+ * (A: front, B: back, C: notes, D: id, then the detail fields from E, see `CARD_DETAIL_FIELDS`).
+ */
+export async function saveDeck(scriptUrl: string, deck: Deck, token?: string | null): Promise<ApiResult<void>> {
+  const cards = deck.cards.map(c => ({
+    id: c.id,
+    front: c.front,
+    back: c.back,
+    notes: c.notes || '',
+    ...Object.fromEntries(CARD_DETAIL_FIELDS.map(field => [field, detailText(c, field)]))
+  }));
+  const result = await postToScript(scriptUrl, { action: 'saveDeck', id: deck.id, name: deck.name, cards }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function deleteDeck(scriptUrl: string, deckId: string, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'deleteDeck', id: deckId }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveExam(scriptUrl: string, exam: Exam, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'saveExam', ...exam }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function deleteExam(scriptUrl: string, examId: string, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'deleteExam', id: examId }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+/**
+ * The script must reply `EXISTS` when the student already submitted this exam.
+ */
+export async function saveExamResult(scriptUrl: string, examResult: ExamResult, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'saveExamResult', ...examResult }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function loginUser(scriptUrl: string, username: string, passwordHash: string, legacyProof: string): Promise<ApiResult<LoginData>> {
+  const result = await postToScript(scriptUrl, { action: 'login', username, passwordHash, legacyProof });
+  return result.ok ? parseLoginResponse(result.data) : result;
+}
+
+export async function refreshSession(scriptUrl: string, token: string): Promise<ApiResult<string>> {
+  const result = await postToScript(scriptUrl, { action: 'refresh' }, token);
+  return result.ok ? parseTokenResponse(result.data) : result;
+}
+
+export async function fetchFullData(scriptUrl: string, token?: string | null): Promise<ApiResult<FullData>> {
   const url = new URL(scriptUrl);
   url.searchParams.set('_t', Date.now().toString());
-  
-  const response = await fetch(url.toString(), { method: 'GET', mode: 'cors' });
-  if (!response.ok) throw new Error("Failed to fetch data from Apps Script");
-  
-  const data = await response.json();
-  // Logging for debugging - visible in Browser Console
-  console.log("Sheet Data Received:", data);
-  return data;
-}
+  if (token) url.searchParams.set('token', token);
 
-export async function saveStudentProgress(scriptUrl: string, progress: Partial<StudentProgress>): Promise<void> {
+  const result = await requestScript(url.toString(), { method: 'GET' });
+  if (!result.ok) return result;
+
+  let data: unknown;
   try {
-    await fetch(scriptUrl, {
-      method: 'POST',
-      mode: 'no-cors',
-      headers: { 'Content-Type': 'text/plain' },
-      body: JSON.stringify({ action: 'saveProgress', ...progress })
-    });
-  } catch (e) {
-    console.error("Progress save failed", e);
+    data = JSON.parse(result.data);
+  } catch {
+    // Apps Script answers quota and runtime errors with an HTML page
+    return classifyFailure(200, result.data).kind === 'quota'
+      ? fail('quota', 'Quota exceeded')
+      : fail('malformed', 'Response is not JSON');
   }
-}
\ No newline at end of file
+  return parseFullData(data);
+}
+
+/**
+ * The script is expected to ignore a repeated sessionId and to take the
+ * username from the verified token rather than the payload.
+ */
+export async function saveStudentProgress(scriptUrl: string, progress: Partial<StudentProgress>, token?: string | null): Promise<ApiResult<void>> {
+  const result = await postToScript(scriptUrl, { action: 'saveProgress', ...progress }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveReviewStates(scriptUrl: string, username: string, reviews: CardReviewState[], token?: string | null): Promise<ApiResult<void>> {
+  if (reviews.length === 0) return ok(undefined);
+  const result = await postToScript(scriptUrl, { action: 'saveReviews', username, reviews }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveConfusions(scriptUrl: string, username: string, confusions: ConfusionRecord[], token?: string | null): Promise<ApiResult<void>> {
+  if (confusions.length === 0) return ok(undefined);
+  const result = await postToScript(scriptUrl, { action: 'saveConfusions', username, confusions }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+export async function saveReviewEvents(scriptUrl: string, username: string, events: ReviewEvent[], token?: string | null): Promise<ApiResult<void>> {
+  if (events.length === 0) return ok(undefined);
+  const result = await postToScript(scriptUrl, { action: 'saveEvents', username, events }, token);
+  return result.ok ? parseSaveResponse(result.data) : result;
+}
+
+/**
+ * DataProvider backed by the Google Apps Script web app.
+ */
+export function createAppsScriptProvider(scriptUrl: string): DataProvider {
+  let token: string | null = null;
+  return {
+    name: 'appsScript',
+    setSessionToken: (next) => { token = next; },
+    refreshSession: () => token ? refreshSession(scriptUrl, token) : Promise.resolve(fail('auth', 'Not signed in')),
+    fetchFullData: () => fetchFullData(scriptUrl, token),
+    saveStudentProgress: (progress) => saveStudentProgress(scriptUrl, progress, token),
+    saveReviewStates: (username, reviews) => saveReviewStates(scriptUrl, username, reviews, token),
+    saveConfusions: (username, confusions) => saveConfusions(scriptUrl, username, confusions, token),
+    saveReviewEvents: (username, events) => saveReviewEvents(scriptUrl, username, events, token),
+    registerUser: (data) => registerUser(scriptUrl, data),
+    getPasswordParams: (username) => getPasswordParams(scriptUrl, username),
+    loginUser: (username, passwordHash, legacyProof) => loginUser(scriptUrl, username, passwordHash, legacyProof),
+    upgradePassword: (username, credential) => upgradePassword(scriptUrl, username, credential, token),
+    requestPasswordReset: (username) => requestPasswordReset(scriptUrl, username),
+    resetPassword: (username, code, credential) => resetPassword(scriptUrl, username, code, credential),
+    updateProfile: (username, profile) => updateProfile(scriptUrl, username, profile, token),
+    changePassword: (username, currentHash, credential) => changePassword(scriptUrl, username, currentHash, credential, token),
+    deleteAccount: (username, passwordHash) => deleteAccount(scriptUrl, username, passwordHash, token),
+    saveClass: (group) => saveClass(scriptUrl, group, token),
+    deleteClass: (classId) => deleteClass(scriptUrl, classId, token),
+    saveAssignment: (assignment) => saveAssignment(scriptUrl, assignment, token),
+    deleteAssignment: (assignmentId) => deleteAssignment(scriptUrl, assignmentId, token),
+    saveDeck: (deck) => saveDeck(scriptUrl, deck, token),
+    deleteDeck: (deckId) => deleteDeck(scriptUrl, deckId, token),
+    saveExam: (exam) => saveExam(scriptUrl, exam, token),
+    deleteExam: (examId) => deleteExam(scriptUrl, examId, token),
+    saveExamResult: (result) => saveExamResult(scriptUrl, result, token)
+  };
+}
@@ -0,0 +1,82 @@
+import { SessionMode } from '../types';
+
+export interface ShortcutHint {
+  keys: string[];
+  label: string;
+}
+
+export const SHORTCUT_HINTS: Record<SessionMode, ShortcutHint[]> = {
+  [SessionMode.FLASHCARD]: [
+    { keys: ['Space', 'Enter'], label: 'カードをめくる' },
+    { keys: ['1', '→'], label: '苦手' },
+    { keys: ['2', '←'], label: '正解' },
+    { keys: ['3', '↑'], label: '習得' },
+    { keys: ['S'], label: '発音を再生' }
+  ],
+  [SessionMode.MEMORY]: [
+    { keys: ['←', '→', '↑', '↓'], label: 'カードを移動' },
+    { keys: ['Space', 'Enter'], label: 'カードをめくる' }
+  ],
+  [SessionMode.LISTENING]: [
+    { keys: ['1', '2', '3', '4'], label: '選択肢を選ぶ' },
+    { keys: ['S'], label: 'もう一度聞く' }
+  ],
+  [SessionMode.TYPING]: [
+    { keys: ['Enter'], label: '答え合わせ / 次へ' },
+    { keys: ['Tab'], label: 'ヒント・音声ボタンへ移動' }
+  ],
+  [SessionMode.QUIZ]: [
+    { keys: ['1', '2', '3', '4'], label: '選択肢を選ぶ' },
+    { keys: ['Enter'], label: '次へ（不正解のとき）' }
+  ],
+  [SessionMode.SPEAKING]: [
+    { keys: ['Space'], label: '話す' },
+    { keys: ['Enter'], label: '次へ' },
+    { keys: ['S'], label: 'お手本を再生' }
+  ],
+  [SessionMode.DICTATION]: [
+    { keys: ['Enter'], label: '答え合わせ / 次へ' },
+    { keys: ['Shift', 'Enter'], label: '改行' },
+    { keys: ['Tab'], label: '再生ボタンへ移動' }
+  ]
+};
+
+export const GENERAL_SHORTCUTS: ShortcutHint[] = [
+  { keys: ['?'], label: 'ショートカット一覧' },
+  { keys: ['Esc'], label: '一覧を閉じる' }
+];
+
+/**
+ * Visible keyboard focus for buttons and other custom controls.
+ */
+export const FOCUS_RING = 'focus:outline-none focus-visible:ring-4 focus-visible:ring-jec-yellow/60';
+
+/**
+ * Keys typed into a text field belong to the field, not to the shortcuts.
+ */
+export function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Enter and Space on a focused button should press that button.
+ */
+export function isButtonTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && !!target.closest('button');
+}
+
+/**
+ * Zero-based option index for the number keys 1-9, or null.
+ */
+export function optionIndex(key: string): number | null {
+  return /^[1-9]$/.test(key) ? Number(key) - 1 : null;
+}
+
+/**
+ * Text for a polite live region. Repeating the same message alternates a trailing
+ * space so screen readers announce it again.
+ */
+export function nextAnnouncement(previous: string, message: string): string {
+  return previous === message ? `${message} ` : message;
+}
@@ -0,0 +1,457 @@
+import { Assignment, CardReviewState, ClassGroup, ConfusionRecord, Deck, Exam, ExamResult, ReviewEvent, StudentProgress, UserRole } from '../types';
+import { DataProvider, ProfileUpdate, RegisterPayload } from './dataProvider';
+import { ApiResult, FullData, LoginData, fail, ok } from './apiContract';
+import { SessionClaims, signToken, verifyToken } from './session';
+import { PBKDF2_ITERATIONS, PasswordCredential, PasswordParams, legacyHashPassword, legacyLoginProof, passwordVerifier } from './password';
+import { MailSender, createConsoleMailSender } from './mailer';
+
+const DB_KEY = 'lm_local_db';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const RESET_TTL_MS = 15 * 60 * 1000;
+const RESET_MAX_ATTEMPTS = 5;
+
+export interface LocalUserRecord {
+  username: string;
+  studentName: string;
+  email: string;
+  passwordHash: string; // Verifier of the client's hash, or the unsalted SHA-256 on legacy accounts
+  role?: UserRole; // Defaults to student; teachers are promoted by editing the record
+  salt?: string; // Absent on legacy SHA-256 accounts
+  iterations?: number;
+  hashedAtRest?: boolean; // Unset on records that still hold the client's hash itself
+}
+
+export interface LocalResetRecord {
+  username: string;
+  codeHash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface LocalDatabase {
+  decks: Deck[];
+  progress: StudentProgress[];
+  reviews: CardReviewState[];
+  confusions: ConfusionRecord[];
+  events: ReviewEvent[];
+  users: LocalUserRecord[];
+  resets: LocalResetRecord[];
+  classes: ClassGroup[];
+  assignments: Assignment[];
+  exams: Exam[];
+  examResults: ExamResult[];
+  secret?: string; // HMAC key for session tokens, generated on first use
+}
+
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface LocalProviderOptions {
+  storage?: KeyValueStorage;
+  seed?: Partial<LocalDatabase>;
+  sessionTtlMs?: number;
+  mailSender?: MailSender;
+}
+
+const emptyDatabase = (): LocalDatabase => ({
+  decks: [], progress: [], reviews: [], confusions: [], events: [], users: [], resets: [], classes: [], assignments: [], exams: [], examResults: []
+});
+
+async function derivePseudoSalt(username: string, secret: string): Promise<string> {
+  return (await legacyHashPassword(`${secret}:${username}`)).slice(0, 32);
+}
+
+/**
+ * What a record keeps for a credential: the verifier, never the hash the client sends.
+ */
+async function storedCredential(credential: PasswordCredential): Promise<Pick<LocalUserRecord, 'passwordHash' | 'salt' | 'iterations' | 'hashedAtRest'>> {
+  return { passwordHash: await passwordVerifier(credential.passwordHash), salt: credential.salt, iterations: credential.iterations, hashedAtRest: true };
+}
+
+async function matchesPassword(user: LocalUserRecord, passwordHash: string): Promise<boolean> {
+  if (!user.salt) return false;
+  return user.passwordHash === (user.hashedAtRest ? await passwordVerifier(passwordHash) : passwordHash);
+}
+
+/**
+ * In-memory storage for environments without localStorage (tests, SSR).
+ */
+export function createMemoryStorage(): KeyValueStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); }
+  };
+}
+
+/**
+ * DataProvider that keeps decks, progress and accounts in the browser.
+ * Works fully offline and reports the same ApiResult errors as the Apps Script backend.
+ */
+export function createLocalProvider(options: LocalProviderOptions = {}): DataProvider {
+  const storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : createMemoryStorage());
+
+  const read = (): LocalDatabase => {
+    try {
+      const saved = storage.getItem(DB_KEY);
+      return saved ? { ...emptyDatabase(), ...JSON.parse(saved) } : emptyDatabase();
+    } catch (e) {
+      console.error("[LocalStore] Failed to read database", e);
+      return emptyDatabase();
+    }
+  };
+
+  const write = (db: LocalDatabase) => storage.setItem(DB_KEY, JSON.stringify(db));
+
+  if (options.seed) write({ ...read(), ...options.seed });
+
+  let token: string | null = null;
+  const ttl = options.sessionTtlMs ?? SESSION_TTL_MS;
+  const mailSender = options.mailSender ?? createConsoleMailSender();
+
+  const getSecret = (): string => {
+    const db = read();
+    if (db.secret) return db.secret;
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    db.secret = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    write(db);
+    return db.secret;
+  };
+
+  const issueToken = (user: Pick<LocalUserRecord, 'username' | 'studentName' | 'email' | 'role'>): Promise<string> => {
+    const now = Date.now();
+    const claims: SessionClaims = {
+      sub: user.username,
+      name: user.studentName,
+      email: user.email,
+      role: user.role ?? 'student',
+      iat: now,
+      exp: now + ttl
+    };
+    return signToken(claims, getSecret());
+  };
+
+  const authorize = async (username?: string): Promise<ApiResult<SessionClaims>> => {
+    const claims = token ? await verifyToken(token, getSecret()) : null;
+    if (!claims) return fail('auth', 'Session expired');
+    if (username !== undefined && claims.sub !== username) return fail('auth', 'Session belongs to another user');
+    return ok(claims);
+  };
+
+  const authorizeTeacher = async (): Promise<ApiResult<SessionClaims>> => {
+    const auth = await authorize();
+    if (auth.ok && auth.data.role !== 'teacher') return fail('auth', 'Teacher role required');
+    return auth;
+  };
+
+  return {
+    name: 'local',
+
+    setSessionToken(next: string | null) {
+      token = next;
+    },
+
+    async refreshSession(): Promise<ApiResult<string>> {
+      const auth = await authorize();
+      if (!auth.ok) return auth;
+      const user = read().users.find(u => u.username === auth.data.sub);
+      if (!user) return fail('auth', 'Account no longer exists');
+      return ok(await issueToken(user));
+    },
+
+    async fetchFullData(): Promise<ApiResult<FullData>> {
+      const { decks, progress, reviews, confusions, events, classes, assignments, exams, examResults } = read();
+      return ok({ decks, progress, reviews, confusions, reviewEvents: events, classes, assignments, exams, examResults });
+    },
+
+    async saveStudentProgress(progress: Partial<StudentProgress>): Promise<ApiResult<void>> {
+      const auth = await authorize(progress.username);
+      if (!auth.ok) return auth;
+      const db = read();
+      if (progress.sessionId && db.progress.some(p => p.sessionId === progress.sessionId)) return ok(undefined);
+      db.progress.push({
+        username: progress.username || '',
+        deckName: progress.deckName || '',
+        masteryPercentage: progress.masteryPercentage ?? 0,
+        lastAttempted: progress.lastAttempted || new Date().toISOString(),
+        cardsMastered: progress.cardsMastered ?? 0,
+        totalCards: progress.totalCards ?? 0,
+        memoryTime: progress.memoryTime,
+        sessionId: progress.sessionId,
+        mode: progress.mode,
+        direction: progress.direction
+      });
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveReviewStates(username: string, reviews: CardReviewState[]): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      reviews.forEach(review => {
+        const idx = db.reviews.findIndex(r =>
+          r.username === username && r.deckName === review.deckName && r.cardId === review.cardId &&
+          (r.direction ?? 'enToJa') === (review.direction ?? 'enToJa')
+        );
+        if (idx >= 0) db.reviews[idx] = review;
+        else db.reviews.push(review);
+      });
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveConfusions(username: string, confusions: ConfusionRecord[]): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const sessions = new Set(confusions.map(c => c.sessionId).filter(Boolean));
+      db.confusions = [...db.confusions.filter(c => !c.sessionId || !sessions.has(c.sessionId)), ...confusions];
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveReviewEvents(username: string, events: ReviewEvent[]): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const sessions = new Set(events.map(e => e.sessionId).filter(Boolean));
+      db.events = [...db.events.filter(e => !e.sessionId || !sessions.has(e.sessionId)), ...events];
+      write(db);
+      return ok(undefined);
+    },
+
+    async registerUser(data: RegisterPayload): Promise<ApiResult<void>> {
+      const db = read();
+      if (db.users.some(u => u.username === data.username)) return fail('conflict', 'Username already exists');
+      db.users.push({
+        username: data.username,
+        studentName: data.studentName,
+        email: data.email,
+        ...(await storedCredential(data))
+      });
+      write(db);
+      return ok(undefined);
+    },
+
+    async getPasswordParams(username: string): Promise<ApiResult<PasswordParams>> {
+      const user = read().users.find(u => u.username === username);
+      // Unknown and legacy accounts get the same stable stand-in salt, so the reply reveals neither
+      if (user?.salt) return ok({ salt: user.salt, iterations: user.iterations ?? PBKDF2_ITERATIONS });
+      return ok({ salt: await derivePseudoSalt(username, getSecret()), iterations: PBKDF2_ITERATIONS });
+    },
+
+    async upgradePassword(username: string, credential: PasswordCredential): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (!user) return fail('auth', 'Account no longer exists');
+      Object.assign(user, await storedCredential(credential));
+      write(db);
+      return ok(undefined);
+    },
+
+    async loginUser(username: string, passwordHash: string, legacyProof: string): Promise<ApiResult<LoginData>> {
+      // Derived first: it may store a new secret, which a later write of `db` would undo
+      const pseudoSalt = await derivePseudoSalt(username, getSecret());
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (user && !user.salt) {
+        if (legacyProof !== await legacyLoginProof(user.passwordHash, { salt: pseudoSalt, iterations: PBKDF2_ITERATIONS })) return fail('auth', 'Invalid credentials');
+        return ok({ token: await issueToken(user), studentName: user.studentName, email: user.email, role: user.role ?? 'student', upgradePassword: true });
+      }
+      if (!user || !(await matchesPassword(user, passwordHash))) return fail('auth', 'Invalid credentials');
+      if (!user.hashedAtRest) {
+        Object.assign(user, await storedCredential({ passwordHash, salt: user.salt!, iterations: user.iterations ?? PBKDF2_ITERATIONS }));
+        write(db);
+      }
+      return ok({ token: await issueToken(user), studentName: user.studentName, email: user.email, role: user.role ?? 'student' });
+    },
+
+    async requestPasswordReset(username: string): Promise<ApiResult<void>> {
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (!user || !user.email) return ok(undefined);
+
+      const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+      db.resets = db.resets.filter(r => r.username !== username);
+      db.resets.push({ username, codeHash: await legacyHashPassword(code), expiresAt: Date.now() + RESET_TTL_MS, attempts: 0 });
+      write(db);
+
+      return mailSender.send({
+        to: user.email,
+        subject: 'JEC単GO! パスワード再設定コード',
+        body: `${user.studentName || username} 様\n\n確認コード: ${code}\n\nこのコードは15分間有効です。心当たりがない場合はこのメールを破棄してください。`
+      });
+    },
+
+    async resetPassword(username: string, code: string, credential: PasswordCredential): Promise<ApiResult<void>> {
+      const db = read();
+      const reset = db.resets.find(r => r.username === username);
+      const user = db.users.find(u => u.username === username);
+      if (!reset || !user || reset.expiresAt < Date.now() || reset.attempts >= RESET_MAX_ATTEMPTS) {
+        return fail('auth', 'Reset code expired');
+      }
+      if (reset.codeHash !== await legacyHashPassword(code.trim())) {
+        reset.attempts += 1;
+        write(db);
+        return fail('auth', 'Reset code mismatch');
+      }
+      Object.assign(user, await storedCredential(credential));
+      db.resets = db.resets.filter(r => r.username !== username);
+      write(db);
+      return ok(undefined);
+    },
+
+    async updateProfile(username: string, profile: ProfileUpdate): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (!user) return fail('auth', 'Account no longer exists');
+      user.studentName = profile.studentName;
+      user.email = profile.email;
+      write(db);
+      return ok(undefined);
+    },
+
+    async changePassword(username: string, currentHash: string, credential: PasswordCredential): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (!user || !(await matchesPassword(user, currentHash))) return fail('auth', 'Current password mismatch');
+      Object.assign(user, await storedCredential(credential));
+      write(db);
+      return ok(undefined);
+    },
+
+    async deleteAccount(username: string, passwordHash: string): Promise<ApiResult<void>> {
+      const auth = await authorize(username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const user = db.users.find(u => u.username === username);
+      if (!user || !(await matchesPassword(user, passwordHash))) return fail('auth', 'Password mismatch');
+      db.users = db.users.filter(u => u.username !== username);
+      db.progress = db.progress.filter(p => p.username !== username);
+      db.reviews = db.reviews.filter(r => r.username !== username);
+      db.confusions = db.confusions.filter(c => c.username !== username);
+      db.events = db.events.filter(e => e.username !== username);
+      db.examResults = db.examResults.filter(r => r.username !== username);
+      db.resets = db.resets.filter(r => r.username !== username);
+      db.classes = db.classes.map(c => ({ ...c, members: c.members.filter(m => m !== username) }));
+      write(db);
+      token = null;
+      return ok(undefined);
+    },
+
+    async saveClass(group: ClassGroup): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.classes = [...db.classes.filter(c => c.id !== group.id), group];
+      write(db);
+      return ok(undefined);
+    },
+
+    async deleteClass(classId: string): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.classes = db.classes.filter(c => c.id !== classId);
+      db.assignments = db.assignments.filter(a => a.classId !== classId);
+      const examIds = new Set(db.exams.filter(e => e.classId === classId).map(e => e.id));
+      db.exams = db.exams.filter(e => !examIds.has(e.id));
+      db.examResults = db.examResults.filter(r => !examIds.has(r.examId));
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveAssignment(assignment: Assignment): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.assignments = [...db.assignments.filter(a => a.id !== assignment.id), assignment];
+      write(db);
+      return ok(undefined);
+    },
+
+    async deleteAssignment(assignmentId: string): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.assignments = db.assignments.filter(a => a.id !== assignmentId);
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveDeck(deck: Deck): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      const existing = db.decks.find(d => d.id === deck.id);
+      if (db.decks.some(d => d.id !== deck.id && d.name === deck.name)) return fail('conflict', 'Deck name taken');
+      // Rows reference decks by name, so a rename carries them along
+      if (existing && existing.name !== deck.name) {
+        const rename = <T extends { deckName: string }>(row: T): T => row.deckName === existing.name ? { ...row, deckName: deck.name } : row;
+        db.progress = db.progress.map(rename);
+        db.reviews = db.reviews.map(rename);
+        db.confusions = db.confusions.map(rename);
+        db.events = db.events.map(rename);
+        db.assignments = db.assignments.map(rename);
+        db.exams = db.exams.map(rename);
+        db.examResults = db.examResults.map(rename);
+      }
+      db.decks = existing ? db.decks.map(d => d.id === deck.id ? deck : d) : [...db.decks, deck];
+      write(db);
+      return ok(undefined);
+    },
+
+    async deleteDeck(deckId: string): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      const deck = db.decks.find(d => d.id === deckId);
+      if (!deck) return ok(undefined);
+      db.decks = db.decks.filter(d => d.id !== deckId);
+      db.assignments = db.assignments.filter(a => a.deckName !== deck.name);
+      db.exams = db.exams.filter(e => e.deckName !== deck.name);
+      db.examResults = db.examResults.filter(r => r.deckName !== deck.name);
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveExam(exam: Exam): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.exams = db.exams.some(e => e.id === exam.id)
+        ? db.exams.map(e => e.id === exam.id ? exam : e)
+        : [...db.exams, exam];
+      write(db);
+      return ok(undefined);
+    },
+
+    async deleteExam(examId: string): Promise<ApiResult<void>> {
+      const auth = await authorizeTeacher();
+      if (!auth.ok) return auth;
+      const db = read();
+      db.exams = db.exams.filter(e => e.id !== examId);
+      db.examResults = db.examResults.filter(r => r.examId !== examId);
+      write(db);
+      return ok(undefined);
+    },
+
+    async saveExamResult(result: ExamResult): Promise<ApiResult<void>> {
+      const auth = await authorize(result.username);
+      if (!auth.ok) return auth;
+      const db = read();
+      const existing = db.examResults.find(r => r.examId === result.examId && r.username === result.username);
+      // A retried save of the same submission is not a second attempt
+      if (existing) return existing.id === result.id ? ok(undefined) : fail('conflict', 'Exam already submitted');
+      db.examResults.push(result);
+      write(db);
+      return ok(undefined);
+    }
+  };
+}
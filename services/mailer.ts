@@ -0,0 +1,49 @@
+import { ApiResult, ok } from './apiContract';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Delivers account mail (password reset codes) for backends that send it from
+ * the client side. The Apps Script backend sends its own mail via MailApp.
+ */
+export interface MailSender {
+  send(message: MailMessage): Promise<ApiResult<void>>;
+}
+
+/**
+ * Development sender: prints the message to the browser console.
+ */
+export function createConsoleMailSender(): MailSender {
+  return {
+    async send(message) {
+      console.info(`[Mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.body}`);
+      return ok(undefined);
+    }
+  };
+}
+
+export interface FakeMailSender extends MailSender {
+  readonly sent: MailMessage[];
+  lastTo(address: string): MailMessage | undefined;
+}
+
+/**
+ * Test sender that keeps every message in memory.
+ */
+export function createFakeMailSender(): FakeMailSender {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+      return ok(undefined);
+    },
+    lastTo(address) {
+      return [...sent].reverse().find(m => m.to === address);
+    }
+  };
+}
@@ -0,0 +1,107 @@
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+/**
+ * Salt and cost for hashing a password before login. The backend answers in the same
+ * shape for every user ID, including unknown ones and accounts created before salting.
+ */
+export interface PasswordParams {
+  salt: string;
+  iterations: number;
+}
+
+export interface PasswordCredential {
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+}
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  passed: boolean;
+}
+
+const COMMON_PASSWORDS = ['password', '12345678', '123456789', 'qwertyui', 'abcd1234', 'password1', 'iloveyou', '11111111'];
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+}
+
+/**
+ * Unsalted SHA-256, kept only to verify accounts that have not been upgraded yet.
+ */
+export async function legacyHashPassword(password: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+export function generateSalt(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export async function derivePasswordHash(password: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations },
+    key,
+    HASH_BITS
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+/**
+ * Fresh salt and PBKDF2 hash for registration or a password change.
+ */
+export async function createCredential(password: string): Promise<PasswordCredential> {
+  const salt = generateSalt();
+  return { passwordHash: await derivePasswordHash(password, salt), salt, iterations: PBKDF2_ITERATIONS };
+}
+
+export async function hashForLogin(password: string, params: PasswordParams): Promise<string> {
+  return derivePasswordHash(password, params.salt, params.iterations);
+}
+
+/**
+ * Proof of the unsalted SHA-256 hash of an account created before salting, run through
+ * the same PBKDF2 as the login hash so it is no cheaper to crack. Sent with every login
+ * so `passwordParams` never has to tell which accounts are still legacy; the backend
+ * checks it only for those and asks for an upgrade.
+ */
+export async function legacyLoginProof(legacyHash: string, params: PasswordParams): Promise<string> {
+  return derivePasswordHash(legacyHash, params.salt, params.iterations);
+}
+
+/**
+ * Backend side: the client's hash is hashed once more before it is stored or compared,
+ * so a leaked stored value cannot itself be sent as a login.
+ */
+export async function passwordVerifier(passwordHash: string): Promise<string> {
+  return legacyHashPassword(passwordHash);
+}
+
+export function checkPasswordStrength(password: string, username: string = ''): PasswordRule[] {
+  const lower = password.toLowerCase();
+  return [
+    { id: 'length', label: '8文字以上', passed: password.length >= 8 },
+    { id: 'letters', label: '英字を含む', passed: /[a-zA-Z]/.test(password) },
+    { id: 'digits', label: '数字を含む', passed: /\d/.test(password) },
+    {
+      id: 'personal',
+      label: 'ユーザーIDを含まない',
+      passed: !username.trim() || !lower.includes(username.trim().toLowerCase())
+    },
+    { id: 'common', label: 'よく使われるパスワードではない', passed: password.length > 0 && !COMMON_PASSWORDS.includes(lower) }
+  ];
+}
+
+export function isPasswordAcceptable(password: string, username: string = ''): boolean {
+  return checkPasswordStrength(password, username).every(rule => rule.passed);
+}
@@ -0,0 +1,85 @@
+import { AnswerVerdict, acceptedAnswers, editDistance, normalizeAnswer } from './answerCheck';
+
+export interface SpokenSegment {
+  text: string;
+  matched: boolean;
+}
+
+export interface PronunciationCheck {
+  verdict: AnswerVerdict;
+  score: number; // 0-100 similarity between what was heard and the closest accepted answer
+  heard: string; // The recognizer alternative that came closest
+  expected: string;
+  segments: SpokenSegment[]; // The expected answer split into heard and missed parts
+}
+
+// Recognizers return real words, so a near miss usually is a near miss in sound too
+const CLOSE_SCORE = 75;
+
+function similarity(heard: string, expected: string): number {
+  const length = Math.max(heard.length, expected.length);
+  if (length === 0) return 0;
+  return Math.round(100 * (1 - editDistance(heard, expected) / length));
+}
+
+/**
+ * Marks each letter of `expected` as heard or missed, following the cheapest
+ * edit path between the two strings, and joins neighbours with the same mark.
+ */
+export function alignSpoken(heard: string, expected: string): SpokenSegment[] {
+  const d: number[][] = Array.from({ length: heard.length + 1 }, (_, i) => [i, ...Array(expected.length).fill(0)]);
+  for (let j = 1; j <= expected.length; j++) d[0][j] = j;
+  for (let i = 1; i <= heard.length; i++) {
+    for (let j = 1; j <= expected.length; j++) {
+      const cost = heard[i - 1] === expected[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+    }
+  }
+
+  const matched: boolean[] = Array(expected.length).fill(false);
+  let i = heard.length;
+  let j = expected.length;
+  while (i > 0 && j > 0) {
+    if (heard[i - 1] === expected[j - 1] && d[i][j] === d[i - 1][j - 1]) {
+      matched[j - 1] = true;
+      i--; j--;
+    } else if (d[i][j] === d[i - 1][j - 1] + 1) {
+      i--; j--;
+    } else if (d[i][j] === d[i][j - 1] + 1) {
+      j--;
+    } else {
+      i--;
+    }
+  }
+
+  const segments: SpokenSegment[] = [];
+  Array.from(expected).forEach((char, k) => {
+    // Spaces never decide a match, so they join whichever part they sit in
+    const isMatched = char === ' ' ? (segments[segments.length - 1]?.matched ?? true) : matched[k];
+    const last = segments[segments.length - 1];
+    if (last && last.matched === isMatched) last.text += char;
+    else segments.push({ text: char, matched: isMatched });
+  });
+  return segments;
+}
+
+/**
+ * Scores the recognizer's alternatives against every accepted spelling of a
+ * card's front and keeps the best pairing.
+ */
+export function checkPronunciation(transcripts: string[], front: string): PronunciationCheck {
+  const answers = acceptedAnswers(front);
+  const heardOptions = transcripts.map(normalizeAnswer).filter(Boolean);
+  const fallback = answers[0] ?? normalizeAnswer(front);
+
+  let best = { heard: heardOptions[0] ?? '', expected: fallback, score: 0 };
+  heardOptions.forEach(heard => {
+    answers.forEach(expected => {
+      const score = similarity(heard, expected);
+      if (score > best.score) best = { heard, expected, score };
+    });
+  });
+
+  const verdict: AnswerVerdict = best.score === 100 ? 'correct' : best.score >= CLOSE_SCORE ? 'close' : 'wrong';
+  return { verdict, score: best.score, heard: best.heard, expected: best.expected, segments: alignSpoken(best.heard, best.expected) };
+}
@@ -0,0 +1,52 @@
+import { ReviewEvent } from '../types';
+
+export interface CardEventSummary {
+  deckName: string;
+  cardId: string;
+  attempts: number;
+  misses: number;
+  missRate: number; // 0-100
+  averageLatencyMs: number;
+  students: number;
+  lastMissedAt?: string;
+}
+
+/**
+ * Answers grouped per card across modes and directions, most missed first.
+ */
+export function summarizeCardEvents(events: ReviewEvent[]): CardEventSummary[] {
+  const groups = new Map<string, { summary: CardEventSummary; latency: number; usernames: Set<string> }>();
+  events.forEach(e => {
+    const key = `${e.deckName}::${e.cardId}`;
+    const group = groups.get(key) || {
+      summary: { deckName: e.deckName, cardId: e.cardId, attempts: 0, misses: 0, missRate: 0, averageLatencyMs: 0, students: 0 },
+      latency: 0,
+      usernames: new Set<string>()
+    };
+    group.summary.attempts += 1;
+    group.latency += e.latencyMs;
+    group.usernames.add(e.username);
+    if (e.result === 'wrong') {
+      group.summary.misses += 1;
+      if (!group.summary.lastMissedAt || e.answeredAt > group.summary.lastMissedAt) group.summary.lastMissedAt = e.answeredAt;
+    }
+    groups.set(key, group);
+  });
+  return Array.from(groups.values())
+    .map(({ summary, latency, usernames }) => ({
+      ...summary,
+      missRate: Math.round((summary.misses / summary.attempts) * 100),
+      averageLatencyMs: Math.round(latency / summary.attempts),
+      students: usernames.size
+    }))
+    .sort((a, b) => b.misses - a.misses || b.missRate - a.missRate);
+}
+
+/**
+ * The words a student keeps missing: every card they have got wrong at least
+ * `minMisses` times, optionally limited to one deck.
+ */
+export function getMissedWords(events: ReviewEvent[], username: string, deckName?: string, minMisses: number = 1): CardEventSummary[] {
+  return summarizeCardEvents(events.filter(e => e.username === username && (!deckName || e.deckName === deckName)))
+    .filter(s => s.misses >= minMisses);
+}
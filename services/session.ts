@@ -0,0 +1,115 @@
+import { User, UserRole } from '../types';
+
+const SESSION_KEY = 'lm_session';
+const LEGACY_USER_KEY = 'lm_user';
+
+export interface SessionClaims {
+  sub: string;
+  name?: string;
+  email?: string;
+  role?: UserRole;
+  iat: number; // Issued at, epoch ms
+  exp: number; // Expires at, epoch ms
+}
+
+export interface StoredSession {
+  token: string;
+  user: User;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Reads the claims without checking the signature. Only the backend can verify
+ * a token; the client uses this to know when to refresh.
+ */
+export function decodeToken(token: string): SessionClaims | null {
+  try {
+    const [payload] = token.split('.');
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export function isTokenExpired(token: string, now: number = Date.now()): boolean {
+  const claims = decodeToken(token);
+  return !claims || claims.exp <= now;
+}
+
+/**
+ * Issues `payload.signature` (HMAC-SHA256, base64url). Used by backends, including the local one.
+ */
+export async function signToken(claims: SessionClaims, secret: string): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifyToken(token: string, secret: string, now: number = Date.now()): Promise<SessionClaims | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+  } catch {
+    return null;
+  }
+  const claims = decodeToken(token);
+  return claims && claims.exp > now ? claims : null;
+}
+
+export function loadSession(): StoredSession | null {
+  // Accounts restored from the old unsigned `lm_user` entry must sign in again
+  localStorage.removeItem(LEGACY_USER_KEY);
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    if (!saved) return null;
+    const session: StoredSession = JSON.parse(saved);
+    if (isTokenExpired(session.token)) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch {
+    clearSession();
+    return null;
+  }
+}
+
+export function storeSession(session: StoredSession): void {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_KEY);
+}
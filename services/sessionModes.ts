@@ -0,0 +1,27 @@
+import { SessionMode, StudyDirection } from '../types';
+
+export const SESSION_MODE_LABELS: Record<SessionMode, string> = {
+  [SessionMode.FLASHCARD]: '単語カード',
+  [SessionMode.MEMORY]: '神経衰弱',
+  [SessionMode.LISTENING]: 'リスニング',
+  [SessionMode.TYPING]: 'タイピング',
+  [SessionMode.QUIZ]: '4択クイズ',
+  [SessionMode.SPEAKING]: 'スピーキング',
+  [SessionMode.DICTATION]: 'ディクテーション'
+};
+
+export const SESSION_MODE_ICONS: Record<SessionMode, string> = {
+  [SessionMode.FLASHCARD]: 'fa-clone',
+  [SessionMode.MEMORY]: 'fa-brain',
+  [SessionMode.LISTENING]: 'fa-headphones',
+  [SessionMode.TYPING]: 'fa-keyboard',
+  [SessionMode.QUIZ]: 'fa-list-ul',
+  [SessionMode.SPEAKING]: 'fa-microphone',
+  [SessionMode.DICTATION]: 'fa-pen-nib'
+};
+
+export const STUDY_DIRECTION_LABELS: Record<StudyDirection, string> = {
+  enToJa: '英 → 日',
+  jaToEn: '日 → 英',
+  mixed: 'ミックス'
+};
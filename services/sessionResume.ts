@@ -0,0 +1,92 @@
+import { CardReviewState, ConfusionRecord, Flashcard, ReviewEvent, SessionMode, StudyDirection } from '../types';
+import { DirectionMap } from './srs';
+
+const STORAGE_PREFIX = 'lm_snapshot_';
+const EXPIRY_KEY = 'lm_resume_hours';
+const HOUR_MS = 60 * 60 * 1000;
+
+export const RESUME_EXPIRY_OPTIONS = [1, 6, 24, 72];
+const DEFAULT_EXPIRY_HOURS = 24;
+
+export interface MemoryTile {
+  id: string;
+  content: string;
+  type: 'front' | 'back';
+  isPrompt: boolean;
+  isFlipped: boolean;
+  isMatched: boolean;
+}
+
+/**
+ * Everything needed to put a study session back where the student left it.
+ */
+export interface SessionSnapshot {
+  deckName: string;
+  mode: SessionMode;
+  direction: StudyDirection;
+  cards: Flashcard[];
+  cardDirections: DirectionMap;
+  currentIndex: number;
+  streak: number;
+  historyCount: number;
+  memoryCards: MemoryTile[];
+  memoryClickCount: number;
+  timer: number;
+  reviews: Record<string, CardReviewState>;
+  confusions: ConfusionRecord[];
+  events: ReviewEvent[];
+  savedAt: number;
+}
+
+export function loadResumeExpiryHours(): number {
+  const saved = Number(localStorage.getItem(EXPIRY_KEY));
+  return RESUME_EXPIRY_OPTIONS.includes(saved) ? saved : DEFAULT_EXPIRY_HOURS;
+}
+
+export function storeResumeExpiryHours(hours: number): void {
+  localStorage.setItem(EXPIRY_KEY, String(hours));
+}
+
+function readSnapshots(username: string): Record<string, SessionSnapshot> {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + username);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("[Resume] Failed to read snapshots", e);
+    return {};
+  }
+}
+
+function writeSnapshots(username: string, snapshots: Record<string, SessionSnapshot>): void {
+  if (Object.keys(snapshots).length === 0) localStorage.removeItem(STORAGE_PREFIX + username);
+  else localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(snapshots));
+}
+
+/**
+ * Unfinished sessions by deck name. Snapshots older than the chosen expiry are dropped.
+ */
+export function loadSessionSnapshots(username: string, now: number = Date.now()): Record<string, SessionSnapshot> {
+  const snapshots = readSnapshots(username);
+  const maxAge = loadResumeExpiryHours() * HOUR_MS;
+  const fresh = Object.fromEntries(Object.entries(snapshots).filter(([, s]) => now - s.savedAt <= maxAge));
+  if (Object.keys(fresh).length !== Object.keys(snapshots).length) writeSnapshots(username, fresh);
+  return fresh;
+}
+
+export function storeSessionSnapshot(username: string, snapshot: SessionSnapshot): void {
+  try {
+    writeSnapshots(username, { ...readSnapshots(username), [snapshot.deckName]: snapshot });
+  } catch (e) {
+    // A full storage quota only costs the ability to resume
+    console.error("[Resume] Failed to store snapshot", e);
+  }
+}
+
+export function clearSessionSnapshot(username: string, deckName: string): void {
+  const { [deckName]: _, ...rest } = readSnapshots(username);
+  writeSnapshots(username, rest);
+}
+
+export function clearSessionSnapshots(username: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + username);
+}
@@ -0,0 +1,151 @@
+export type RecognitionFailure = 'unsupported' | 'denied' | 'noSpeech' | 'network' | 'aborted' | 'failed';
+
+export class RecognitionError extends Error {
+  constructor(public reason: RecognitionFailure, message: string = reason) {
+    super(message);
+  }
+}
+
+/**
+ * Turns one spoken attempt into text. Implementations resolve with the
+ * recognizer's alternatives, most likely first.
+ */
+export interface SpeechRecognizer {
+  isAvailable(): boolean;
+  listen(lang: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+const MAX_ALTERNATIVES = 5;
+
+// Web Speech error codes, see https://webaudio.github.io/web-speech-api/#speechreco-error
+const WEB_SPEECH_FAILURES: Record<string, RecognitionFailure> = {
+  'not-allowed': 'denied',
+  'service-not-allowed': 'denied',
+  'audio-capture': 'denied',
+  'no-speech': 'noSpeech',
+  'network': 'network',
+  'aborted': 'aborted'
+};
+
+// The parts of the Web Speech API used here; TypeScript's DOM library does not declare it
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+}
+
+interface SpeechRecognitionEventLike {
+  results: ArrayLike<ArrayLike<SpeechRecognitionAlternativeLike>>;
+}
+
+interface SpeechRecognitionErrorEventLike {
+  error: string;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function webSpeechClass(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+export const webSpeechRecognizer: SpeechRecognizer = {
+  isAvailable: () => !!webSpeechClass(),
+  listen(lang, signal) {
+    return new Promise((resolve, reject) => {
+      const Recognition = webSpeechClass();
+      if (!Recognition) {
+        reject(new RecognitionError('unsupported'));
+        return;
+      }
+      const recognition = new Recognition();
+      recognition.lang = lang;
+      recognition.interimResults = false;
+      recognition.continuous = false;
+      recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+      let settled = false;
+      const settle = (action: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', stop);
+        action();
+      };
+      const stop = () => {
+        recognition.abort();
+        settle(() => reject(new RecognitionError('aborted')));
+      };
+
+      recognition.onresult = (event) => {
+        const result = event.results[0];
+        const transcripts: string[] = [];
+        for (let i = 0; i < result.length; i++) transcripts.push(result[i].transcript);
+        settle(() => resolve(transcripts.filter(t => t.trim())));
+      };
+      recognition.onerror = (event) => {
+        settle(() => reject(new RecognitionError(WEB_SPEECH_FAILURES[event.error] ?? 'failed', event.error)));
+      };
+      // Ending without a result means the browser heard nothing it could transcribe
+      recognition.onend = () => settle(() => reject(new RecognitionError('noSpeech')));
+
+      if (signal?.aborted) {
+        stop();
+        return;
+      }
+      signal?.addEventListener('abort', stop);
+      recognition.start();
+    });
+  }
+};
+
+/**
+ * A recognizer that "hears" scripted answers, one per attempt, for tests and
+ * for trying the mode without a microphone. A function receives the attempt number.
+ */
+export function createStubRecognizer(answers: string[] | ((attempt: number) => string), delayMs: number = 0): SpeechRecognizer {
+  let attempt = 0;
+  return {
+    isAvailable: () => true,
+    listen(_lang, signal) {
+      const transcript = typeof answers === 'function' ? answers(attempt) : answers[attempt % Math.max(1, answers.length)] ?? '';
+      attempt += 1;
+      return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          if (transcript.trim()) resolve([transcript]);
+          else reject(new RecognitionError('noSpeech'));
+        }, delayMs);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timeout);
+          reject(new RecognitionError('aborted'));
+        });
+      });
+    }
+  };
+}
+
+let activeRecognizer: SpeechRecognizer = webSpeechRecognizer;
+
+/**
+ * Swaps the recognizer used by the speaking mode, e.g. for a cloud service or the stub.
+ */
+export function setSpeechRecognizer(recognizer: SpeechRecognizer): void {
+  activeRecognizer = recognizer;
+}
+
+export function getSpeechRecognizer(): SpeechRecognizer {
+  return activeRecognizer;
+}
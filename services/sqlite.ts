@@ -0,0 +1,359 @@
+/**
+ * Just enough of the SQLite file format to read and write Anki collections:
+ * table b-trees with overflow pages, UTF-8 text. Indexes, WAL files and
+ * freelists are ignored when reading and never written.
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface SqlRow {
+  rowid: number;
+  values: SqlValue[];
+}
+
+export interface SqlTable {
+  name: string;
+  sql: string; // CREATE TABLE statement stored in sqlite_master
+  rows: SqlRow[];
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const WRITE_PAGE_SIZE = 4096;
+const LEAF_TABLE = 0x0d;
+const INTERIOR_TABLE = 0x05;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0n;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = (value << 7n) | BigInt(byte & 0x7f);
+    if (byte < 0x80) return [Number(BigInt.asIntN(64, value)), i + 1];
+  }
+  value = (value << 8n) | BigInt(bytes[offset + 8]);
+  return [Number(BigInt.asIntN(64, value)), 9];
+}
+
+function writeVarint(value: number): number[] {
+  let v = BigInt.asUintN(64, BigInt(value));
+  if (v > 0x00ffffffffffffffn) {
+    const out = [Number(v & 0xffn)];
+    v >>= 8n;
+    for (let i = 0; i < 8; i++) {
+      out.unshift(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    return out;
+  }
+  const out = [Number(v & 0x7fn)];
+  v >>= 7n;
+  while (v > 0n) {
+    out.unshift(Number(v & 0x7fn) | 0x80);
+    v >>= 7n;
+  }
+  return out;
+}
+
+const INT_SIZES = [0, 1, 2, 3, 4, 6, 8];
+
+function decodeRecord(payload: Uint8Array): SqlValue[] {
+  const [headerSize, n] = readVarint(payload, 0);
+  const types: number[] = [];
+  let position = n;
+  while (position < headerSize) {
+    const [type, len] = readVarint(payload, position);
+    types.push(type);
+    position += len;
+  }
+
+  let body = headerSize;
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  return types.map(type => {
+    if (type === 0) return null;
+    if (type === 8) return 0;
+    if (type === 9) return 1;
+    if (type === 7) {
+      const value = view.getFloat64(body);
+      body += 8;
+      return value;
+    }
+    if (type <= 6) {
+      const size = INT_SIZES[type];
+      let value = 0n;
+      for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(payload[body + i]);
+      body += size;
+      return Number(BigInt.asIntN(size * 8, value));
+    }
+    const size = type >= 12 && type % 2 === 0 ? (type - 12) / 2 : (type - 13) / 2;
+    const slice = payload.subarray(body, body + size);
+    body += size;
+    return type % 2 === 0 ? slice.slice() : decoder.decode(slice);
+  });
+}
+
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const types: number[] = [];
+  const parts: Uint8Array[] = [];
+  values.forEach(value => {
+    if (value === null) {
+      types.push(0);
+    } else if (typeof value === 'number' && Number.isInteger(value)) {
+      if (value === 0 || value === 1) {
+        types.push(value === 0 ? 8 : 9);
+        return;
+      }
+      const type = [1, 2, 3, 4, 5, 6].find(t => {
+        const bits = BigInt(INT_SIZES[t] * 8 - 1);
+        const v = BigInt(value);
+        return v >= -(1n << bits) && v < (1n << bits);
+      })!;
+      const size = INT_SIZES[type];
+      const bytes = new Uint8Array(size);
+      let v = BigInt.asUintN(size * 8, BigInt(value));
+      for (let i = size - 1; i >= 0; i--) {
+        bytes[i] = Number(v & 0xffn);
+        v >>= 8n;
+      }
+      types.push(type);
+      parts.push(bytes);
+    } else if (typeof value === 'number') {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value);
+      types.push(7);
+      parts.push(bytes);
+    } else if (typeof value === 'string') {
+      const bytes = encoder.encode(value);
+      types.push(bytes.length * 2 + 13);
+      parts.push(bytes);
+    } else {
+      types.push(value.length * 2 + 12);
+      parts.push(value);
+    }
+  });
+
+  const typeBytes = types.flatMap(writeVarint);
+  // The header size counts itself; one byte suffices below 128
+  let headerSize = typeBytes.length + 1;
+  if (writeVarint(headerSize).length > 1) headerSize = typeBytes.length + writeVarint(typeBytes.length + 2).length;
+  const header = [...writeVarint(headerSize), ...typeBytes];
+  const bodyLength = parts.reduce((sum, p) => sum + p.length, 0);
+  const record = new Uint8Array(header.length + bodyLength);
+  record.set(header, 0);
+  let position = header.length;
+  parts.forEach(p => {
+    record.set(p, position);
+    position += p.length;
+  });
+  return record;
+}
+
+/**
+ * Bytes of a payload kept on the b-tree page itself; the rest spills to overflow pages.
+ */
+function localPayloadSize(payloadSize: number, usable: number): number {
+  const maxLocal = usable - 35;
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+  const size = minLocal + ((payloadSize - minLocal) % (usable - 4));
+  return size <= maxLocal ? size : minLocal;
+}
+
+export function readSqliteTables(bytes: Uint8Array): Map<string, SqlTable> {
+  if (decoder.decode(bytes.subarray(0, 16)) !== HEADER_MAGIC) throw new Error('SQLiteデータベースではありません');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - bytes[20];
+  if (view.getUint32(56) > 1) throw new Error('UTF-8以外のデータベースには対応していません');
+
+  const page = (n: number) => (n - 1) * pageSize;
+
+  const readPayload = (cell: number, payloadSize: number): Uint8Array => {
+    const local = localPayloadSize(payloadSize, usable);
+    if (local === payloadSize) return bytes.subarray(cell, cell + payloadSize);
+    const payload = new Uint8Array(payloadSize);
+    payload.set(bytes.subarray(cell, cell + local), 0);
+    let written = local;
+    let next = view.getUint32(cell + local);
+    while (next && written < payloadSize) {
+      const start = page(next);
+      const chunk = Math.min(usable - 4, payloadSize - written);
+      payload.set(bytes.subarray(start + 4, start + 4 + chunk), written);
+      written += chunk;
+      next = view.getUint32(start);
+    }
+    return payload;
+  };
+
+  const walk = (pageNumber: number, rows: SqlRow[]) => {
+    const start = page(pageNumber);
+    const header = pageNumber === 1 ? start + 100 : start;
+    const type = bytes[header];
+    const cellCount = view.getUint16(header + 3);
+    const pointers = header + (type === LEAF_TABLE ? 8 : 12);
+    if (type !== LEAF_TABLE && type !== INTERIOR_TABLE) throw new Error('未対応のページ形式です');
+
+    for (let i = 0; i < cellCount; i++) {
+      let cell = start + view.getUint16(pointers + i * 2);
+      if (type === INTERIOR_TABLE) {
+        walk(view.getUint32(cell), rows);
+        continue;
+      }
+      const [payloadSize, a] = readVarint(bytes, cell);
+      cell += a;
+      const [rowid, b] = readVarint(bytes, cell);
+      cell += b;
+      rows.push({ rowid, values: decodeRecord(readPayload(cell, payloadSize)) });
+    }
+    if (type === INTERIOR_TABLE) walk(view.getUint32(header + 8), rows);
+  };
+
+  const master: SqlRow[] = [];
+  walk(1, master);
+  const tables = new Map<string, SqlTable>();
+  master.forEach(({ values: [type, name, , rootpage, sql] }) => {
+    if (type !== 'table' || typeof name !== 'string' || typeof rootpage !== 'number' || rootpage === 0) return;
+    const rows: SqlRow[] = [];
+    walk(rootpage, rows);
+    tables.set(name, { name, sql: String(sql ?? ''), rows });
+  });
+  return tables;
+}
+
+interface PageRef {
+  page: number;
+  maxRowid: number;
+}
+
+/**
+ * Serializes the tables into a fresh database file. Rows must be sorted by rowid.
+ */
+export function writeSqliteDatabase(tables: SqlTable[]): Uint8Array<ArrayBuffer> {
+  const pageSize = WRITE_PAGE_SIZE;
+  const pages: Uint8Array[] = [new Uint8Array(pageSize)];
+  const allocate = () => {
+    pages.push(new Uint8Array(pageSize));
+    return pages.length;
+  };
+
+  const buildCell = (rowid: number, values: SqlValue[]): Uint8Array => {
+    const payload = encodeRecord(values);
+    const local = localPayloadSize(payload.length, pageSize);
+    const prefix = [...writeVarint(payload.length), ...writeVarint(rowid)];
+    const cell = new Uint8Array(prefix.length + local + (local < payload.length ? 4 : 0));
+    cell.set(prefix, 0);
+    cell.set(payload.subarray(0, local), prefix.length);
+    if (local < payload.length) {
+      let offset = local;
+      let previous: { bytes: Uint8Array; at: number } = { bytes: cell, at: prefix.length + local };
+      while (offset < payload.length) {
+        const overflow = allocate();
+        new DataView(previous.bytes.buffer, previous.bytes.byteOffset).setUint32(previous.at, overflow);
+        const chunk = payload.subarray(offset, offset + pageSize - 4);
+        pages[overflow - 1].set(chunk, 4);
+        offset += chunk.length;
+        previous = { bytes: pages[overflow - 1], at: 0 };
+      }
+    }
+    return cell;
+  };
+
+  // Lays cells out from the end of the page, pointers right after the header
+  const fillPage = (pageNumber: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+    const data = pages[pageNumber - 1];
+    const view = new DataView(data.buffer);
+    const header = pageNumber === 1 ? 100 : 0;
+    let content = pageSize;
+    const pointers = header + (type === LEAF_TABLE ? 8 : 12);
+    cells.forEach((cell, i) => {
+      content -= cell.length;
+      data.set(cell, content);
+      view.setUint16(pointers + i * 2, content);
+    });
+    data[header] = type;
+    view.setUint16(header + 3, cells.length);
+    view.setUint16(header + 5, content === 65536 ? 0 : content);
+    if (rightChild !== undefined) view.setUint32(header + 8, rightChild);
+  };
+
+  const fits = (cells: Uint8Array[], next: Uint8Array, headerSize: number) =>
+    headerSize + (cells.length + 1) * 2 + cells.reduce((sum, c) => sum + c.length, 0) + next.length <= pageSize;
+
+  const buildTree = (rows: SqlRow[]): number => {
+    const leaves: PageRef[] = [];
+    let cells: Uint8Array[] = [];
+    let maxRowid = 0;
+    const flushLeaf = () => {
+      const pageNumber = allocate();
+      fillPage(pageNumber, LEAF_TABLE, cells);
+      leaves.push({ page: pageNumber, maxRowid });
+      cells = [];
+    };
+    rows.forEach(row => {
+      const cell = buildCell(row.rowid, row.values);
+      if (cells.length > 0 && !fits(cells, cell, 8)) flushLeaf();
+      cells.push(cell);
+      maxRowid = row.rowid;
+    });
+    if (cells.length > 0 || leaves.length === 0) flushLeaf();
+
+    let level = leaves;
+    while (level.length > 1) {
+      const parents: PageRef[] = [];
+      let group: PageRef[] = [];
+      const flushInterior = () => {
+        const right = group[group.length - 1];
+        const pageNumber = allocate();
+        const interiorCells = group.slice(0, -1).map(child => {
+          const key = writeVarint(child.maxRowid);
+          const cell = new Uint8Array(4 + key.length);
+          new DataView(cell.buffer).setUint32(0, child.page);
+          cell.set(key, 4);
+          return cell;
+        });
+        fillPage(pageNumber, INTERIOR_TABLE, interiorCells, right.page);
+        parents.push({ page: pageNumber, maxRowid: right.maxRowid });
+        group = [];
+      };
+      level.forEach(child => {
+        // 12-byte header, 2-byte pointer, 4-byte child, key varint of at most 9 bytes
+        if (group.length > 0 && 12 + group.length * 15 + 15 > pageSize) flushInterior();
+        group.push(child);
+      });
+      flushInterior();
+      level = parents;
+    }
+    return level[0].page;
+  };
+
+  const masterRows: SqlRow[] = tables.map((table, i) => ({
+    rowid: i + 1,
+    values: ['table', table.name, table.name, buildTree(table.rows), table.sql]
+  }));
+  const masterCells = masterRows.map(row => buildCell(row.rowid, row.values));
+  if (!masterCells.every((cell, i) => fits(masterCells.slice(0, i), cell, 108))) throw new Error('スキーマが大きすぎます');
+  fillPage(1, LEAF_TABLE, masterCells);
+
+  const first = pages[0];
+  const view = new DataView(first.buffer);
+  first.set(encoder.encode(HEADER_MAGIC), 0);
+  view.setUint16(16, pageSize);
+  first[18] = 1;
+  first[19] = 1;
+  first[21] = 64;
+  first[22] = 32;
+  first[23] = 32;
+  view.setUint32(24, 1); // File change counter
+  view.setUint32(28, pages.length);
+  view.setUint32(40, 1); // Schema cookie
+  view.setUint32(44, 4); // Schema format
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(92, 1);
+  view.setUint32(96, 3045000);
+
+  const output = new Uint8Array(pages.length * pageSize);
+  pages.forEach((p, i) => output.set(p, i * pageSize));
+  return output;
+}
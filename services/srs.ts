@@ -0,0 +1,224 @@
+import { CardDirection, CardOrigin, CardReviewState, Flashcard, ReviewGrade } from '../types';
+
+const STORAGE_PREFIX = 'lm_srs_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+/**
+ * Days between reviews from which a card counts as mastered.
+ */
+export const MASTERED_INTERVAL = 21;
+
+/**
+ * SM-2 quality values for the three grades the UI exposes.
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Each study direction is scheduled on its own. English-to-Japanese keeps the
+ * original key so states stored before reverse study existed still match.
+ */
+export function reviewKey(deckName: string, cardId: string, direction: CardDirection = 'enToJa'): string {
+  return direction === 'enToJa' ? originKey(deckName, cardId) : `${originKey(deckName, cardId)}::${direction}`;
+}
+
+/**
+ * Key of a card whatever the direction; generated decks also use it as their card ids.
+ */
+export function originKey(deckName: string, cardId: string): string {
+  return `${deckName}::${cardId}`;
+}
+
+export function cardOrigin(deckName: string, card: Flashcard): CardOrigin {
+  return card.origin ?? { deckName, cardId: card.id };
+}
+
+/**
+ * Key of a card as studied in a deck; cards of a generated deck keep their original schedule.
+ */
+export function cardReviewKey(deckName: string, card: Flashcard, direction: CardDirection = 'enToJa'): string {
+  const origin = cardOrigin(deckName, card);
+  return reviewKey(origin.deckName, origin.cardId, direction);
+}
+
+/**
+ * Per-card directions for a session; cards without an entry are studied English to Japanese.
+ */
+export type DirectionMap = Record<string, CardDirection>;
+
+function stateFor(states: Record<string, CardReviewState>, deckName: string, card: Flashcard, directions: DirectionMap) {
+  return states[cardReviewKey(deckName, card, directions[card.id])];
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(startOfDay(date).getTime() + days * DAY_MS);
+}
+
+export function createReviewState(
+  username: string,
+  deckName: string,
+  cardId: string,
+  direction: CardDirection = 'enToJa',
+  now: Date = new Date()
+): CardReviewState {
+  return {
+    username,
+    deckName,
+    cardId,
+    direction,
+    easeFactor: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueDate: startOfDay(now).toISOString(),
+    lastReviewed: ''
+  };
+}
+
+/**
+ * Applies one SM-2 review to a card and returns the next state.
+ * Failed cards come back tomorrow; passed cards grow their interval by the ease factor.
+ */
+export function scheduleReview(state: CardReviewState, grade: ReviewGrade, now: Date = new Date()): CardReviewState {
+  const quality = GRADE_QUALITY[grade];
+  let { repetitions, interval, lapses } = state;
+
+  if (quality < 3) {
+    if (repetitions > 0) lapses += 1;
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = grade === 'easy' ? 4 : 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * state.easeFactor);
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ...state,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueDate: addDays(now, interval).toISOString(),
+    lastReviewed: now.toISOString()
+  };
+}
+
+export function isDue(state: CardReviewState | undefined, now: Date = new Date()): boolean {
+  if (!state) return true;
+  return new Date(state.dueDate).getTime() < addDays(now, 1).getTime();
+}
+
+/**
+ * Builds today's flashcard queue: overdue cards first (oldest due date first), then new cards.
+ */
+export function buildDueQueue(
+  deckName: string,
+  cards: Flashcard[],
+  states: Record<string, CardReviewState>,
+  directions: DirectionMap = {},
+  now: Date = new Date()
+): Flashcard[] {
+  const review: Flashcard[] = [];
+  const fresh: Flashcard[] = [];
+  cards.forEach(card => {
+    const state = stateFor(states, deckName, card, directions);
+    if (!state) fresh.push(card);
+    else if (isDue(state, now)) review.push(card);
+  });
+  review.sort((a, b) =>
+    new Date(stateFor(states, deckName, a, directions)!.dueDate).getTime() -
+    new Date(stateFor(states, deckName, b, directions)!.dueDate).getTime()
+  );
+  return [...review, ...fresh.sort(() => Math.random() - 0.5)];
+}
+
+export function countDue(
+  deckName: string,
+  cards: Flashcard[],
+  states: Record<string, CardReviewState>,
+  directions: DirectionMap = {},
+  now: Date = new Date()
+) {
+  let review = 0;
+  let fresh = 0;
+  cards.forEach(card => {
+    const state = stateFor(states, deckName, card, directions);
+    if (!state) fresh += 1;
+    else if (isDue(state, now)) review += 1;
+  });
+  return { review, fresh };
+}
+
+/**
+ * Cards whose next review falls on tomorrow's date.
+ */
+export function getDueTomorrow(
+  deckName: string,
+  cards: Flashcard[],
+  states: Record<string, CardReviewState>,
+  directions: DirectionMap = {},
+  now: Date = new Date()
+): Flashcard[] {
+  const tomorrow = addDays(now, 1).getTime();
+  const dayAfter = addDays(now, 2).getTime();
+  return cards.filter(card => {
+    const state = stateFor(states, deckName, card, directions);
+    if (!state) return false;
+    const due = new Date(state.dueDate).getTime();
+    return due >= tomorrow && due < dayAfter;
+  });
+}
+
+/**
+ * Merges two review sets, keeping whichever side reviewed each card most recently.
+ */
+export function mergeReviewStates(
+  local: Record<string, CardReviewState>,
+  remote: CardReviewState[]
+): Record<string, CardReviewState> {
+  const merged = { ...local };
+  remote.forEach(state => {
+    const key = reviewKey(state.deckName, state.cardId, state.direction);
+    const existing = merged[key];
+    if (!existing || new Date(state.lastReviewed).getTime() > new Date(existing.lastReviewed).getTime()) {
+      merged[key] = state;
+    }
+  });
+  return merged;
+}
+
+export function loadReviewStates(username: string): Record<string, CardReviewState> {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + username);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("[SRS] Failed to read review states", e);
+    return {};
+  }
+}
+
+export function storeReviewStates(username: string, states: Record<string, CardReviewState>): void {
+  localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(states));
+}
+
+export function clearReviewStates(username: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + username);
+}
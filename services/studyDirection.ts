@@ -0,0 +1,51 @@
+import { CardDirection, CardReviewState, Flashcard, StudyDirection } from '../types';
+import { DirectionMap, cardReviewKey, isDue } from './srs';
+
+const STORAGE_KEY = 'lm_study_direction';
+
+export function loadStudyDirection(): StudyDirection {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved === 'jaToEn' || saved === 'mixed' ? saved : 'enToJa';
+}
+
+export function storeStudyDirection(direction: StudyDirection): void {
+  localStorage.setItem(STORAGE_KEY, direction);
+}
+
+/**
+ * Picks the direction each card is studied in this session. Mixed sessions favour
+ * whichever direction is due and toss a coin when both or neither are.
+ */
+export function assignDirections(
+  deckName: string,
+  cards: Flashcard[],
+  states: Record<string, CardReviewState>,
+  direction: StudyDirection
+): DirectionMap {
+  const directions: DirectionMap = {};
+  cards.forEach(card => {
+    if (direction !== 'mixed') {
+      directions[card.id] = direction;
+      return;
+    }
+    const forwardDue = isDue(states[cardReviewKey(deckName, card, 'enToJa')]);
+    const reverseDue = isDue(states[cardReviewKey(deckName, card, 'jaToEn')]);
+    directions[card.id] = forwardDue === reverseDue
+      ? (Math.random() < 0.5 ? 'enToJa' : 'jaToEn')
+      : forwardDue ? 'enToJa' : 'jaToEn';
+  });
+  return directions;
+}
+
+export function promptText(card: Flashcard, direction: CardDirection): string {
+  return direction === 'enToJa' ? card.front : card.back;
+}
+
+export function answerText(card: Flashcard, direction: CardDirection): string {
+  return direction === 'enToJa' ? card.back : card.front;
+}
+
+export const SIDE_LANGUAGE_LABELS: Record<'front' | 'back', string> = {
+  front: 'ENGLISH',
+  back: 'JAPANESE'
+};
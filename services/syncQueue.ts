@@ -0,0 +1,165 @@
+import { CardReviewState, ConfusionRecord, ReviewEvent, StudentProgress } from '../types';
+import { DataProvider } from './dataProvider';
+import { ApiErrorKind } from './apiContract';
+
+const OUTBOX_KEY = 'lm_outbox';
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// Worth another try later; auth, conflict and malformed failures will not fix themselves
+const RETRYABLE_ERRORS: ApiErrorKind[] = ['network', 'server', 'quota'];
+
+export interface OutboxEntry {
+  sessionId: string;
+  progress: StudentProgress;
+  reviews: CardReviewState[];
+  confusions?: ConfusionRecord[]; // Missing on entries queued before quizzes reported them
+  events?: ReviewEvent[]; // Missing on entries queued before answers were logged
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  parked?: boolean; // Failed permanently; kept for the record but not retried until the next login
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let isFlushing = false;
+
+export function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function readOutbox(): OutboxEntry[] {
+  try {
+    const saved = localStorage.getItem(OUTBOX_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("[Sync] Failed to read outbox", e);
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  listeners.forEach(listener => listener(entries));
+}
+
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Durably records a finished session before any network call is made.
+ * Entries with a sessionId that is already queued are ignored.
+ */
+export function enqueueSession(
+  progress: StudentProgress,
+  reviews: CardReviewState[] = [],
+  confusions: ConfusionRecord[] = [],
+  events: ReviewEvent[] = []
+): OutboxEntry {
+  const entries = readOutbox();
+  const sessionId = progress.sessionId || createSessionId();
+  const existing = entries.find(e => e.sessionId === sessionId);
+  if (existing) return existing;
+
+  const entry: OutboxEntry = {
+    sessionId,
+    progress: { ...progress, sessionId },
+    reviews,
+    confusions: confusions.map(c => ({ ...c, sessionId })),
+    events: events.map(e => ({ ...e, sessionId })),
+    attempts: 0,
+    nextAttemptAt: 0
+  };
+  writeOutbox([...entries, entry]);
+  return entry;
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Sends every entry of the signed-in user whose backoff has elapsed. Entries that fail
+ * with a retryable error stay queued with a doubled delay, others are parked so they
+ * cannot hold up later sessions; successful ones are removed. Returns the number still
+ * queued.
+ */
+export async function flushOutbox(provider: DataProvider, username: string, now: number = Date.now()): Promise<number> {
+  if (isFlushing) return readOutbox().length;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return readOutbox().length;
+  isFlushing = true;
+
+  try {
+    for (const entry of readOutbox()) {
+      if (entry.progress.username !== username || entry.parked || entry.nextAttemptAt > now) continue;
+      let result = await provider.saveStudentProgress(entry.progress);
+      if (result.ok) result = await provider.saveReviewStates(entry.progress.username, entry.reviews);
+      if (result.ok) result = await provider.saveConfusions(entry.progress.username, entry.confusions || []);
+      if (result.ok) result = await provider.saveReviewEvents(entry.progress.username, entry.events || []);
+
+      if (result.ok) {
+        writeOutbox(readOutbox().filter(e => e.sessionId !== entry.sessionId));
+      } else {
+        const attempts = entry.attempts + 1;
+        const lastError = `${result.error.kind}: ${result.error.message}`;
+        const parked = !RETRYABLE_ERRORS.includes(result.error.kind);
+        writeOutbox(readOutbox().map(e => e.sessionId === entry.sessionId
+          ? { ...e, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError, parked }
+          : e
+        ));
+        if (parked) console.error(`[Sync] Session ${entry.sessionId} failed (${lastError}), parked.`);
+        else console.warn(`[Sync] Session ${entry.sessionId} failed (${lastError}, attempt ${attempts}), will retry.`);
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+  return readOutbox().length;
+}
+
+/**
+ * Gives a user's parked entries one more try, e.g. after they sign in again with a
+ * fresh token.
+ */
+export function releaseParked(username: string): void {
+  const entries = readOutbox();
+  if (!entries.some(e => e.parked && e.progress.username === username)) return;
+  writeOutbox(entries.map(e => e.parked && e.progress.username === username ? { ...e, parked: false, nextAttemptAt: 0 } : e));
+}
+
+/**
+ * Entries still waiting to be sent, leaving out parked ones.
+ */
+export function countPending(entries: OutboxEntry[]): number {
+  return entries.filter(e => !e.parked).length;
+}
+
+/**
+ * Adds queued sessions that the backend has not returned yet, so students see
+ * their latest result before it is synced.
+ */
+export function mergePendingProgress(remote: StudentProgress[], pending: OutboxEntry[]): StudentProgress[] {
+  const syncedIds = new Set(remote.map(p => p.sessionId).filter(Boolean));
+  const local = pending.map(e => e.progress).filter(p => !syncedIds.has(p.sessionId));
+  return [...remote, ...local];
+}
+
+/**
+ * Same for the answer events of queued sessions.
+ */
+export function mergePendingEvents(remote: ReviewEvent[], pending: OutboxEntry[]): ReviewEvent[] {
+  const syncedIds = new Set(remote.map(e => e.sessionId).filter(Boolean));
+  const local = pending.flatMap(e => e.events || []).filter(e => !syncedIds.has(e.sessionId));
+  return [...remote, ...local];
+}
+
+/**
+ * Drops every queued session of a user, e.g. after the account is deleted.
+ */
+export function discardOutbox(username: string): void {
+  writeOutbox(readOutbox().filter(e => e.progress.username !== username));
+}
@@ -0,0 +1,66 @@
+export type TtsProviderId = 'gemini' | 'webSpeech' | 'recorded';
+export type TtsAccent = 'us' | 'uk' | 'au';
+
+export interface TtsSettings {
+  provider: TtsProviderId;
+  voice: string; // Gemini voice name or Web Speech voice name; blank picks a default
+  accent: TtsAccent;
+  rate: number;
+  slowRepeat: boolean; // Plays every word a second time, slower
+  audioUrlTemplate: string; // For recorded audio, e.g. https://example.com/{accent}/{text}.mp3
+}
+
+export const TTS_PROVIDER_LABELS: Record<TtsProviderId, string> = {
+  gemini: 'AI音声 (Gemini)',
+  webSpeech: 'ブラウザ音声',
+  recorded: '録音音声 (URL)'
+};
+
+export const TTS_ACCENTS: Record<TtsAccent, { label: string; lang: string; description: string }> = {
+  us: { label: 'アメリカ', lang: 'en-US', description: 'American English' },
+  uk: { label: 'イギリス', lang: 'en-GB', description: 'British English' },
+  au: { label: 'オーストラリア', lang: 'en-AU', description: 'Australian English' }
+};
+
+export const GEMINI_VOICES = ['Puck', 'Kore', 'Charon', 'Aoede', 'Fenrir', 'Zephyr'];
+
+export const MIN_TTS_RATE = 0.5;
+export const MAX_TTS_RATE = 1.5;
+export const SLOW_REPEAT_FACTOR = 0.7;
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  provider: 'gemini',
+  voice: 'Puck',
+  accent: 'us',
+  rate: 1,
+  slowRepeat: false,
+  audioUrlTemplate: ''
+};
+
+const STORAGE_PREFIX = 'lm_tts_';
+
+/**
+ * The user's saved voice settings; missing or unreadable fields fall back to the defaults.
+ */
+export function loadTtsSettings(username: string): TtsSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + username);
+    const parsed = saved ? JSON.parse(saved) : {};
+    const settings = { ...DEFAULT_TTS_SETTINGS, ...parsed };
+    if (!(settings.provider in TTS_PROVIDER_LABELS)) settings.provider = DEFAULT_TTS_SETTINGS.provider;
+    if (!(settings.accent in TTS_ACCENTS)) settings.accent = DEFAULT_TTS_SETTINGS.accent;
+    settings.rate = Math.min(MAX_TTS_RATE, Math.max(MIN_TTS_RATE, Number(settings.rate) || 1));
+    return settings;
+  } catch (e) {
+    console.error("[TTS] Failed to read settings", e);
+    return DEFAULT_TTS_SETTINGS;
+  }
+}
+
+export function storeTtsSettings(username: string, settings: TtsSettings): void {
+  localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(settings));
+}
+
+export function clearTtsSettings(username: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + username);
+}
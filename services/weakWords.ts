@@ -0,0 +1,81 @@
+import { CardReviewState, Deck, Flashcard, ReviewEvent } from '../types';
+import { MASTERED_INTERVAL, originKey } from './srs';
+
+export const WEAK_DECK_ID = 'weak-words';
+export const WEAK_DECK_NAME = '苦手な単語';
+export const WEAK_DECK_SIZE = 20;
+export const MIN_WEAK_WORDS = 4; // Enough for four options in quiz and listening
+
+const GRADUATION_STREAK = 3; // Right answers in a row since the last miss
+const DEFAULT_EASE = 2.5;
+const SLOW_ANSWER_MS = 8000;
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) || []), item]);
+  });
+  return groups;
+}
+
+/**
+ * How weak a card is: misses and lapses count most, then a low ease factor and
+ * slow answers. Cards never missed score null, and so do cards that graduated by
+ * being answered right several times since the last miss or by growing a long
+ * review interval.
+ */
+function weakness(events: ReviewEvent[], states: CardReviewState[]): number | null {
+  const misses = events.filter(e => e.result === 'wrong').length;
+  const lapses = states.reduce((sum, s) => sum + s.lapses, 0);
+  if (misses + lapses === 0) return null;
+
+  let streak = 0;
+  for (let i = events.length - 1; i >= 0 && events[i].result !== 'wrong'; i--) streak++;
+  if (streak >= GRADUATION_STREAK) return null;
+  if (states.length > 0 && states.every(s => s.interval >= MASTERED_INTERVAL)) return null;
+
+  const missRate = events.length > 0 ? misses / events.length : 1;
+  const lowestEase = states.length > 0 ? Math.min(...states.map(s => s.easeFactor)) : DEFAULT_EASE;
+  const averageLatency = events.length > 0 ? events.reduce((sum, e) => sum + e.latencyMs, 0) / events.length : 0;
+  return 2 * misses + 2 * lapses + 3 * missRate + 2 * (DEFAULT_EASE - lowestEase) + Math.min(averageLatency / SLOW_ANSWER_MS, 1.5);
+}
+
+/**
+ * A generated deck of the student's weakest words across every deck. Its cards
+ * carry their origin, so studying them updates the original cards' schedules.
+ */
+export function buildWeakDeck(
+  username: string,
+  decks: Deck[],
+  events: ReviewEvent[],
+  reviewStates: Record<string, CardReviewState>
+): Deck {
+  const eventsByCard = groupBy(
+    events
+      .filter(e => e.username === username)
+      .sort((a, b) => new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime()),
+    e => originKey(e.deckName, e.cardId)
+  );
+  const statesByCard = groupBy(
+    Object.values(reviewStates).filter(s => s.username === username),
+    s => originKey(s.deckName, s.cardId)
+  );
+
+  const scored: { card: Flashcard; score: number }[] = [];
+  decks.forEach(deck => deck.cards.forEach(card => {
+    const key = originKey(deck.name, card.id);
+    const score = weakness(eventsByCard.get(key) || [], statesByCard.get(key) || []);
+    if (score === null) return;
+    scored.push({
+      card: { ...card, id: key, masteryScore: 0, origin: { deckName: deck.name, cardId: card.id } },
+      score
+    });
+  }));
+
+  return {
+    id: WEAK_DECK_ID,
+    name: WEAK_DECK_NAME,
+    cards: scored.sort((a, b) => b.score - a.score).slice(0, WEAK_DECK_SIZE).map(s => s.card)
+  };
+}
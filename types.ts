@@ -3,7 +3,24 @@ export interface Flashcard {
   front: string;
   back: string;
   notes?: string;
+  example?: string; // An English sentence using the word, read aloud in dictation
+  exampleTranslation?: string;
+  partOfSpeech?: string; // As written in the word list, e.g. "n." or "名詞"
+  ipa?: string;
+  furigana?: string; // Reading of the Japanese side
+  imageUrl?: string;
+  tags?: string[];
   masteryScore: number;
+  origin?: CardOrigin; // Set on cards of generated decks
+}
+
+/**
+ * The deck card a card of a generated deck stands for. Its schedule, events and
+ * confusions are recorded against the original card.
+ */
+export interface CardOrigin {
+  deckName: string;
+  cardId: string;
 }
 
 export interface Deck {
@@ -20,17 +37,146 @@ export interface StudentProgress {
   cardsMastered: number;
   totalCards: number;
   memoryTime?: number; // Time in seconds
+  sessionId?: string; // Client-generated, used to deduplicate retried saves
+  mode?: SessionMode;
+  direction?: StudyDirection;
 }
 
+export type UserRole = 'student' | 'teacher';
+
 export interface User {
   username: string;
   studentName?: string;
   email?: string;
+  role?: UserRole; // Missing on sessions created before roles existed; treated as student
   isLoggedIn: boolean;
 }
 
 export enum SessionMode {
   FLASHCARD = 'FLASHCARD',
   MEMORY = 'MEMORY',
-  LISTENING = 'LISTENING'
-}
\ No newline at end of file
+  LISTENING = 'LISTENING',
+  TYPING = 'TYPING',
+  QUIZ = 'QUIZ',
+  SPEAKING = 'SPEAKING',
+  DICTATION = 'DICTATION'
+}
+export type ReviewGrade = 'again' | 'good' | 'easy';
+
+export type CardDirection = 'enToJa' | 'jaToEn';
+export type StudyDirection = CardDirection | 'mixed';
+
+export interface CardReviewState {
+  username: string;
+  deckName: string;
+  cardId: string;
+  direction?: CardDirection; // Missing on states recorded before reverse study existed; treated as enToJa
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number;
+  lapses: number;
+  dueDate: string;
+  lastReviewed: string;
+}
+
+/**
+ * A wrong multiple-choice answer: the card asked and the card whose option was picked instead.
+ */
+export interface ConfusionRecord {
+  username: string;
+  deckName: string;
+  cardId: string;
+  chosenCardId: string;
+  mode: SessionMode;
+  direction: CardDirection;
+  answeredAt: string;
+  sessionId?: string;
+}
+
+export type ReviewEventResult = 'correct' | 'wrong' | 'mastered';
+
+/**
+ * One answer to one card, whatever the mode. Latency runs from showing the card to answering it.
+ */
+export interface ReviewEvent {
+  username: string;
+  deckName: string;
+  cardId: string;
+  mode: SessionMode;
+  direction?: CardDirection;
+  result: ReviewEventResult;
+  latencyMs: number;
+  answeredAt: string;
+  sessionId?: string;
+}
+
+export interface ClassGroup {
+  id: string;
+  name: string;
+  teacher: string;
+  members: string[]; // Student usernames
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  deckName: string;
+  mode: SessionMode;
+  targetMastery: number; // Percentage a single session must reach
+  dueDate: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type ExamQuestionType = 'choice' | 'typing' | 'listening';
+
+/**
+ * A fixed test set by a teacher. The seed makes the question order and options
+ * the same for every student and every reload.
+ */
+export interface Exam {
+  id: string;
+  classId: string;
+  deckName: string;
+  title: string;
+  questionCount: number;
+  timeLimitMinutes: number;
+  questionTypes: ExamQuestionType[];
+  direction: StudyDirection; // Applies to choice questions; typing and listening have a fixed direction
+  seed: string;
+  dueDate: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ExamAnswer {
+  cardId: string;
+  type: ExamQuestionType;
+  response: string; // Chosen card id for choice and listening, typed text for typing; empty when unanswered
+  correct: boolean;
+}
+
+export interface ExamResult {
+  id: string;
+  examId: string;
+  username: string;
+  deckName: string;
+  score: number;
+  total: number;
+  answers: ExamAnswer[];
+  startedAt: string;
+  submittedAt: string;
+  timedOut: boolean;
+}
+
+export interface SessionStats {
+  mode?: SessionMode;
+  direction?: StudyDirection;
+  progress: number;
+  mastered: number;
+  total: number;
+  memoryTime?: number;
+  reviews?: CardReviewState[];
+  confusions?: ConfusionRecord[];
+  events?: ReviewEvent[];
+}
@@ -6,6 +6,8 @@ export default defineConfig({
   plugins: [react()],
   define: {
     'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
+    'process.env.DATA_BACKEND': JSON.stringify(process.env.DATA_BACKEND || 'appsScript'),
+    'process.env.SCRIPT_URL': JSON.stringify(process.env.SCRIPT_URL || ''),
     'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'production'),
   },
   build: {